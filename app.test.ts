@@ -1,3 +1,13 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import AdmZip from 'adm-zip';
+import xlsx from 'xlsx';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createApp } from './app';
+
 describe('App', () => {
   describe('Demo', () => {
     it('should just pass', async () => {
@@ -7,3 +17,181 @@ describe('App', () => {
 
   });
 });
+
+describe('createApp', () => {
+  let dir: string;
+  let server: Server;
+  let baseURL: string;
+
+  beforeAll((done) => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'app-test-'));
+    const app = createApp({
+      workspaceDir: path.join(dir, 'workspaces'),
+      jobsDir: path.join(dir, 'jobs'),
+      docs: false,
+    });
+    server = app.listen(0, () => {
+      baseURL = `http://localhost:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  // Workspaces are removed in the background once the response closes
+  const workspacesRemoved = async () => {
+    while (fs.readdirSync(path.join(dir, 'workspaces')).length) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  afterAll((done) => {
+    server.close(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+      done();
+    });
+  });
+
+  it('should convert an upload and clean up its workspace', async () => {
+    const form = new FormData();
+    form.append('file', new Blob(['id,name\n1,Ada\n']), 'people.csv');
+    const { data, headers } = await axios.post(`${baseURL}/csv-json`, form);
+
+    expect(data).toEqual([{ id: '1', name: 'Ada' }]);
+    expect(headers['content-disposition']).toBe(
+      'attachment; filename=people.csv.json'
+    );
+    await workspacesRemoved();
+  });
+
+  it('should convert an SQL dump to JSON', async () => {
+    const form = new FormData();
+    form.append(
+      'file',
+      new Blob([
+        "CREATE TABLE users (id int, name varchar(20));\nINSERT INTO users VALUES (1,'Ada'),(2,'Bob');\nINSERT INTO pets (kind) VALUES ('cat');\n",
+      ]),
+      'shop.sql'
+    );
+    const { data, headers } = await axios.post(`${baseURL}/sql-json`, form);
+
+    expect(data).toEqual({
+      users: [
+        { id: 1, name: 'Ada' },
+        { id: 2, name: 'Bob' },
+      ],
+      pets: [{ kind: 'cat' }],
+    });
+    expect(headers['content-disposition']).toBe(
+      'attachment; filename=shop.sql.json'
+    );
+    await workspacesRemoved();
+  });
+
+  it('should convert an SQL dump to a zip of one CSV file per table', async () => {
+    const form = new FormData();
+    form.append(
+      'file',
+      new Blob([
+        "INSERT INTO users (id, name) VALUES (1,'Ada');\nINSERT INTO pets (kind) VALUES ('cat');\n",
+      ]),
+      'shop.sql'
+    );
+    const { data, headers } = await axios.post(`${baseURL}/sql-csv`, form, {
+      responseType: 'arraybuffer',
+    });
+
+    expect(headers['content-disposition']).toBe(
+      'attachment; filename=shop.sql.zip'
+    );
+    const zip = new AdmZip(Buffer.from(data));
+    expect(
+      zip
+        .getEntries()
+        .map((entry) => [entry.entryName, entry.getData().toString()])
+    ).toEqual([
+      ['shop-users.csv', 'id,name\n1,Ada'],
+      ['shop-pets.csv', 'kind\ncat'],
+    ]);
+    await workspacesRemoved();
+  });
+
+  it('should convert XML records to a zip of CSV files', async () => {
+    const form = new FormData();
+    form.append(
+      'file',
+      new Blob([
+        '<data><item id="1"><name>Ada</name></item><item id="2"><name>Bob</name></item></data>',
+      ]),
+      'people.xml'
+    );
+    const { data, headers } = await axios.post(`${baseURL}/xml-csv`, form, {
+      responseType: 'arraybuffer',
+    });
+
+    expect(headers['content-disposition']).toBe(
+      'attachment; filename=people.xml.zip'
+    );
+    const zip = new AdmZip(Buffer.from(data));
+    expect(
+      zip
+        .getEntries()
+        .map((entry) => [entry.entryName, entry.getData().toString()])
+    ).toEqual([['people-data.csv', 'id,name\n1,Ada\n2,Bob']]);
+    await workspacesRemoved();
+  });
+
+  it('should convert an XML workbook to one sheet per table', async () => {
+    const form = new FormData();
+    form.append(
+      'file',
+      new Blob([
+        '<workbook><sheet name="people"><row><id>1</id><name>Ada</name></row></sheet><sheet name="pets"><row><kind>cat</kind></row></sheet></workbook>',
+      ]),
+      'shop.xml'
+    );
+    const { data } = await axios.post(`${baseURL}/xml-excel`, form, {
+      responseType: 'arraybuffer',
+    });
+
+    const workbook = xlsx.read(Buffer.from(data));
+    expect(workbook.SheetNames).toEqual(['people', 'pets']);
+    expect(xlsx.utils.sheet_to_json(workbook.Sheets.people)).toEqual([
+      { id: '1', name: 'Ada' },
+    ]);
+    await workspacesRemoved();
+  });
+
+  it('should preview an upload without writing it', async () => {
+    const form = new FormData();
+    form.append('file', new Blob(['id;born\n1;1815-12-10\n2;\n']), 'data.txt');
+    const { data } = await axios.post(`${baseURL}/preview?limit=1`, form);
+
+    expect(data.data).toEqual({
+      format: 'csv',
+      encoding: 'utf-8',
+      delimiter: ';',
+      tables: [
+        {
+          name: 'data',
+          columns: [
+            { name: 'id', type: 'integer', nullable: false },
+            { name: 'born', type: 'date', nullable: true },
+          ],
+          rowCount: 2,
+          rows: [{ id: '1', born: '1815-12-10' }],
+        },
+      ],
+    });
+    expect(fs.readdirSync(path.join(dir, 'workspaces'))).toEqual([]);
+  });
+
+  it('should report conversion errors with their status', async () => {
+    const form = new FormData();
+    form.append('file', new Blob(['<a>']), 'broken.json');
+    const response = await axios.post(`${baseURL}/json-csv`, form, {
+      validateStatus: () => true,
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.data.message).toMatch(/^Error parsing JSON file/);
+  });
+});
@@ -1,5 +1,8 @@
 
 // jest.config.js
+// Run in a zone behind UTC so local time parsing shows up in the tests
+process.env.TZ = 'America/New_York';
+
 module.exports = {
   preset: 'ts-jest',
   testTimeout: 50000,
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { main, parseArgs } from './cli';
+
+describe('cli', () => {
+  let dir: string;
+  let stderr: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-test-'));
+    stderr = '';
+    jest.spyOn(process.stderr, 'write').mockImplementation((chunk) => {
+      stderr += chunk;
+      return true;
+    });
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should parse flags into camelCase options', () => {
+    expect(
+      parseArgs([
+        'convert',
+        'a.csv',
+        '--to',
+        'sql',
+        '--skip-rows=2',
+        '--stream',
+      ])
+    ).toEqual({
+      command: 'convert',
+      inputs: ['a.csv'],
+      options: { to: 'sql', skipRows: '2', stream: 'true' },
+    });
+  });
+
+  it('should convert a file next to its input', async () => {
+    const input = path.join(dir, 'people.csv');
+    fs.writeFileSync(input, 'id;name\n1;Ada\n');
+
+    expect(await main(['convert', input, '--to', 'json'])).toBe(0);
+    expect(
+      JSON.parse(fs.readFileSync(path.join(dir, 'people.json'), 'utf8'))
+    ).toEqual([{ id: '1', name: 'Ada' }]);
+  });
+
+  it('should convert a glob into a folder and report failures', async () => {
+    fs.writeFileSync(path.join(dir, 'a.json'), '[{"x": 1}]');
+    fs.writeFileSync(path.join(dir, 'b.json'), 'not json');
+    const out = path.join(dir, 'out');
+
+    expect(
+      await main([
+        'convert',
+        path.join(dir, '*.json'),
+        '--to',
+        'csv',
+        '--out',
+        out,
+      ])
+    ).toBe(1);
+    expect(fs.readdirSync(out)).toEqual(['a.csv']);
+    expect(stderr).toContain('b.json: Error parsing JSON file.');
+  });
+
+  it('should keep the folders of inputs sharing a name', async () => {
+    ['a', 'b'].forEach((folder) => {
+      fs.mkdirSync(path.join(dir, folder));
+      fs.writeFileSync(path.join(dir, folder, 'data.csv'), `id\n${folder}\n`);
+    });
+    fs.writeFileSync(path.join(dir, 'a', 'data.json'), '[{"id": "c"}]');
+    const out = path.join(dir, 'out');
+
+    expect(
+      await main([
+        'convert',
+        path.join(dir, '*/data.*'),
+        '--to',
+        'ndjson',
+        '--out',
+        out,
+      ])
+    ).toBe(0);
+    expect(fs.readdirSync(path.join(out, 'a'))).toEqual([
+      'data.csv.ndjson',
+      'data.json.ndjson',
+    ]);
+    expect(fs.readFileSync(path.join(out, 'b', 'data.ndjson'), 'utf8')).toBe(
+      '{"id":"b"}\n'
+    );
+  });
+
+  it('should exit with a usage error without --to', async () => {
+    expect(await main(['convert', 'a.csv'])).toBe(2);
+    expect(stderr).toContain('ddie: Missing --to format.');
+  });
+});
@@ -0,0 +1,340 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { convert, streamConvert } from './convert';
+import { getFormat, listFormats } from './registry';
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: ddie convert <files, directories or globs | -> --to <format> [options]
+
+Options:
+  --to <format>        Output format: ${listFormats()
+    .map((format) => format.name)
+    .join(', ')}
+  --from <format>      Input format, taken from the file extension by default.
+                       Required when reading stdin
+  --out <path>         Output file, or folder when converting several files.
+                       Defaults to each input's folder, or stdout for stdin
+                       ("-" writes to stdout)
+  --stream             Convert row by row with flat memory use
+  --<option> <value>   Any option of the HTTP routes, e.g. --dialect postgres
+                       or --skip-rows 2
+
+Exit codes: 0 success, 1 a conversion failed, 2 invalid usage.
+`;
+
+// Flags that never take a value
+const SWITCHES = ['stream', 'unflatten', 'help'];
+
+class UsageError extends Error {}
+
+interface CliArgs {
+  command?: string;
+  inputs: string[];
+  options: { [key: string]: any };
+}
+
+const camelCase = (name: string) =>
+  name.replace(/-([a-z])/g, (match, letter) => letter.toUpperCase());
+
+export const parseArgs = (args: string[]): CliArgs => {
+  // `ddie --help` has flags but no command
+  const command = args[0]?.startsWith('--') ? undefined : args[0];
+  const rest = command === undefined ? args : args.slice(1);
+  const inputs: string[] = [];
+  const options: { [key: string]: any } = {};
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      inputs.push(arg);
+      continue;
+    }
+
+    const equals = arg.indexOf('=');
+    const flag = equals > 0 ? arg.slice(2, equals) : arg.slice(2);
+    const name = camelCase(flag);
+    if (equals > 0) {
+      options[name] = arg.slice(equals + 1);
+    } else if (SWITCHES.includes(name)) {
+      options[name] = 'true';
+    } else if (i + 1 < rest.length) {
+      options[name] = rest[++i];
+    } else {
+      throw new UsageError(`Missing value for --${flag}.`);
+    }
+  }
+
+  return { command, inputs, options };
+};
+
+const hasGlob = (pattern: string) => /[*?]/.test(pattern);
+
+const toPosix = (file: string) => file.split(path.sep).join('/');
+
+// * and ? match within a folder, ** across folders
+const globToRegExp = (pattern: string) => {
+  const source = pattern
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map((part) => {
+      if (part === '**/') return '(?:.*/)?';
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+};
+
+// Files under dir, down to depth levels of folders
+const walk = (dir: string, depth: number, files: string[] = []) => {
+  fs.readdirSync(dir, { withFileTypes: true }).forEach((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isFile()) files.push(file);
+    else if (entry.isDirectory() && depth > 1) walk(file, depth - 1, files);
+  });
+  return files;
+};
+
+const expandGlob = (pattern: string) => {
+  const segments = toPosix(path.normalize(pattern)).split('/');
+  const globAt = segments.findIndex(hasGlob);
+  const base = segments.slice(0, globAt).join('/') || (globAt ? '/' : '.');
+  if (!fs.existsSync(base)) return [];
+
+  const depth = segments.includes('**') ? Infinity : segments.length - globAt;
+  const matcher = globToRegExp(segments.join('/'));
+  return walk(base, depth)
+    .map(toPosix)
+    .filter((file) => matcher.test(file))
+    .sort();
+};
+
+// Deepest folder holding every file
+const commonDir = (files: string[]) =>
+  files
+    .map((file) => path.dirname(path.resolve(file)))
+    .reduce((common, dir) => {
+      while (path.relative(common, dir).split(path.sep)[0] === '..') {
+        common = path.dirname(common);
+      }
+      return common;
+    });
+
+const formatOf = (file: string) => getFormat(path.extname(file).slice(1))?.name;
+
+// Files to convert: plain paths, every convertible file in a folder, or
+// the matches of a glob (quoted, so the shell leaves it alone)
+export const resolveInputs = (inputs: string[], from?: string) => {
+  const files: string[] = [];
+  inputs.forEach((input) => {
+    if (hasGlob(input)) {
+      const matches = expandGlob(input);
+      if (!matches.length) throw new UsageError(`No files match ${input}.`);
+      files.push(...matches);
+    } else if (fs.existsSync(input) && fs.statSync(input).isDirectory()) {
+      files.push(
+        ...fs
+          .readdirSync(input)
+          .map((name) => path.join(input, name))
+          .filter((file) => fs.statSync(file).isFile())
+          .filter((file) => {
+            const format = formatOf(file);
+            return format && (!from || getFormat(from)?.name === format);
+          })
+          .sort()
+      );
+    } else {
+      files.push(input);
+    }
+  });
+  return files;
+};
+
+// Where a converted file goes: stdout, the --out file, the --out folder or
+// next to its input, named outputName.extension
+const outputTarget = (
+  file: string | undefined,
+  outputName: string,
+  extension: string,
+  options: { [key: string]: any },
+  batch: boolean
+) => {
+  const { out } = options;
+  if (out === '-' || (!file && !out)) return '-';
+
+  const name = `${outputName}.${extension}`;
+  const outIsDir =
+    out &&
+    (batch ||
+      /[\\/]$/.test(out) ||
+      (fs.existsSync(out) && fs.statSync(out).isDirectory()));
+  if (outIsDir) {
+    const target = path.join(out, name);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    return target;
+  }
+  if (out) return out;
+
+  const target = path.join(path.dirname(file!), path.basename(name));
+  if (path.resolve(target) === path.resolve(file!)) {
+    throw new Error('The output would overwrite the input, use --out.');
+  }
+  return target;
+};
+
+const convertOne = async (
+  input: Readable,
+  file: string | undefined,
+  outputName: string,
+  from: string,
+  options: { [key: string]: any },
+  batch: boolean
+) => {
+  const { out, ...convertOptions } = options;
+  const request = {
+    ...convertOptions,
+    from,
+    to: options.to,
+    fileName: file ? path.parse(file).name : 'data',
+  };
+
+  let target: string;
+  if (String(options.stream) === 'true') {
+    const conversion = streamConvert(request);
+    target = outputTarget(
+      file,
+      outputName,
+      conversion.extension,
+      options,
+      batch
+    );
+    const output: Writable =
+      target === '-' ? process.stdout : fs.createWriteStream(target);
+    try {
+      await conversion.run(input, output);
+    } finally {
+      if (output !== process.stdout) output.end();
+    }
+    if (output !== process.stdout) await finished(output);
+  } else {
+    const result = await convert(input, request);
+    target = outputTarget(file, outputName, result.extension, options, batch);
+    if (target === '-') process.stdout.write(result.data);
+    else fs.writeFileSync(target, result.data);
+  }
+
+  if (target !== '-') process.stderr.write(`${file || 'stdin'} -> ${target}\n`);
+};
+
+// Run the CLI and return its exit code
+export const main = async (args: string[]): Promise<number> => {
+  let parsed: CliArgs;
+  try {
+    parsed = parseArgs(args);
+    const { command, options } = parsed;
+    if (!command || command === 'help' || options.help) {
+      process.stdout.write(USAGE);
+      return command || options.help ? 0 : EXIT_USAGE;
+    }
+    if (command !== 'convert') {
+      throw new UsageError(`Unknown command: ${command}.`);
+    }
+    if (!options.to) throw new UsageError('Missing --to format.');
+  } catch (e: any) {
+    if (!(e instanceof UsageError)) throw e;
+    process.stderr.write(`ddie: ${e.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const { inputs, options } = parsed;
+
+  // Piped input
+  if (!inputs.length || (inputs.length === 1 && inputs[0] === '-')) {
+    if (!options.from || process.stdin.isTTY) {
+      process.stderr.write(
+        'ddie: pass files to convert, or pipe one in with --from <format>.\n'
+      );
+      return EXIT_USAGE;
+    }
+    try {
+      await convertOne(
+        process.stdin,
+        undefined,
+        'data',
+        options.from,
+        options,
+        false
+      );
+      return 0;
+    } catch (e: any) {
+      process.stderr.write(`ddie: ${e.message}\n`);
+      return EXIT_FAILED;
+    }
+  }
+
+  let files: string[];
+  try {
+    files = resolveInputs(inputs, options.from);
+    if (files.length > 1 && options.out === '-') {
+      throw new UsageError('Several files cannot be written to stdout.');
+    }
+  } catch (e: any) {
+    if (!(e instanceof UsageError)) throw e;
+    process.stderr.write(`ddie: ${e.message}\n`);
+    return EXIT_USAGE;
+  }
+
+  // Outputs keep the folders of their inputs below the folder they share,
+  // so a/data.csv and b/data.csv do not collide in --out. Inputs sharing a
+  // name in one folder (data.csv, data.json) keep their extension in the
+  // output name, as the HTTP routes do (data.csv.json)
+  const base = commonDir(files);
+  const names = files.map((file) => {
+    const { dir, name } = path.parse(path.relative(base, path.resolve(file)));
+    return path.join(dir, name);
+  });
+  const outputName = (i: number) =>
+    names.indexOf(names[i]) === names.lastIndexOf(names[i])
+      ? names[i]
+      : path.join(path.dirname(names[i]), path.basename(files[i]));
+
+  // Convert every file, reporting failures without stopping the batch
+  let failures = 0;
+  for (const [i, file] of files.entries()) {
+    try {
+      const from = options.from || formatOf(file);
+      if (!from) {
+        throw new Error('Unknown input format, pass --from.');
+      }
+      await convertOne(
+        fs.createReadStream(file),
+        file,
+        outputName(i),
+        from,
+        options,
+        files.length > 1
+      );
+    } catch (e: any) {
+      failures++;
+      process.stderr.write(`ddie: ${file}: ${e.message}\n`);
+    }
+  }
+  return failures ? EXIT_FAILED : 0;
+};
+
+if (require.main === module) {
+  main(process.argv.slice(2))
+    .then((code) => {
+      process.exitCode = code;
+    })
+    .catch((e) => {
+      process.stderr.write(`ddie: ${e.message}\n`);
+      process.exitCode = EXIT_FAILED;
+    });
+}
@@ -0,0 +1,3 @@
+// Importing a connector module registers it for its URL schemes
+import './mysql';
+import './postgres';
@@ -0,0 +1,48 @@
+import { createConnection } from 'mysql2/promise';
+import { registerConnector } from '../registry';
+import { DatabaseConnection } from '../types';
+
+const connect = async (url: string): Promise<DatabaseConnection> => {
+  const connection = await createConnection({
+    uri: url,
+    // Dates as UTC like the SQL writer, DATE columns as 'YYYY-MM-DD' text
+    timezone: 'Z',
+    dateStrings: ['DATE'],
+    // BIGINT and DECIMAL beyond what a double holds come back as text
+    supportBigNumbers: true,
+  });
+
+  return {
+    query: async (sql, params) => {
+      const [rows, fields] = await connection.query({
+        sql,
+        values: params,
+        rowsAsArray: true,
+      });
+      // Statements other than SELECT return a result header instead
+      return Array.isArray(rows)
+        ? {
+            columns: (fields || []).map((field) => field.name),
+            rows: rows as any[][],
+          }
+        : { columns: [], rows: [] };
+    },
+    tableExists: async (name) => {
+      const [rows] = await connection.query(
+        'SELECT 1 FROM information_schema.tables WHERE table_schema = DATABASE() AND table_name = ?',
+        [name]
+      );
+      return (rows as any[]).length > 0;
+    },
+    close: () => connection.end(),
+  };
+};
+
+registerConnector({
+  name: 'mysql',
+  aliases: ['mariadb'],
+  dialect: 'mysql',
+  placeholder: () => '?',
+  beginReadOnly: 'START TRANSACTION READ ONLY',
+  connect,
+});
@@ -0,0 +1,58 @@
+import { Client, CustomTypesConfig, types } from 'pg';
+import { registerConnector } from '../registry';
+import { DatabaseConnection } from '../types';
+
+// pg has queryMode, its type definitions do not
+declare module 'pg' {
+  interface QueryConfig<I = any[]> {
+    queryMode?: 'simple' | 'extended';
+  }
+}
+
+// DATE columns stay 'YYYY-MM-DD' text, pg would parse them as local
+// midnight. BIGINT and NUMERIC already come back as text.
+const TYPE_PARSERS: CustomTypesConfig = {
+  getTypeParser: (id: number, format?: 'text' | 'binary') =>
+    id === types.builtins.DATE
+      ? (value: string) => value
+      : types.getTypeParser(id, format),
+};
+
+const connect = async (url: string): Promise<DatabaseConnection> => {
+  const client = new Client({ connectionString: url, types: TYPE_PARSERS });
+  await client.connect();
+
+  return {
+    // Always the extended protocol, which runs a single statement: with
+    // the simple one, "SELECT 1; COMMIT; DROP TABLE x" would run all three
+    query: async (sql, params) => {
+      const result = await client.query({
+        text: sql,
+        values: params,
+        rowMode: 'array',
+        queryMode: 'extended',
+      });
+      return {
+        columns: (result.fields || []).map((field) => field.name),
+        rows: result.rows || [],
+      };
+    },
+    tableExists: async (name) => {
+      const result = await client.query(
+        'SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = $1',
+        [name]
+      );
+      return result.rows.length > 0;
+    },
+    close: () => client.end(),
+  };
+};
+
+registerConnector({
+  name: 'postgres',
+  aliases: ['postgresql'],
+  dialect: 'postgres',
+  placeholder: (index) => `$${index}`,
+  beginReadOnly: 'BEGIN READ ONLY',
+  connect,
+});
@@ -0,0 +1,1101 @@
+import { tableFromIPC } from 'apache-arrow';
+import fs from 'fs';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import xlsx from 'xlsx';
+import { convert, streamConvert } from './convert';
+import { ConversionError } from './errors';
+
+const run = async (input: string, from: string, to: string) => {
+  const result = await convert(Buffer.from(input), {
+    from,
+    to,
+    fileName: 'data',
+  });
+  return result.data.toString();
+};
+
+describe('convert', () => {
+  describe('SQL input', () => {
+    it('should read CREATE TABLE and multi-row INSERT statements', async () => {
+      const sql = `
+        -- dump
+        CREATE TABLE IF NOT EXISTS \`db\`.\`users\` (
+          \`id\` int(11) NOT NULL,
+          "name" varchar(255) DEFAULT NULL,
+          [score] decimal(10,2),
+          PRIMARY KEY (\`id\`)
+        );
+        INSERT INTO users VALUES (1,'O''Brien',-1.5),(2,'it\\'s',NULL), (3, 'a;b', 2e3);
+        insert into orders (id, note) values (1, 'hi');
+      `;
+
+      expect(JSON.parse(await run(sql, 'sql', 'json'))).toEqual({
+        users: [
+          { id: 1, name: "O'Brien", score: -1.5 },
+          { id: 2, name: "it's", score: null },
+          { id: 3, name: 'a;b', score: 2000 },
+        ],
+        orders: [{ id: 1, note: 'hi' }],
+      });
+    });
+  });
+
+  describe('XML input', () => {
+    it('should read back the /excel-xml workbook shape', async () => {
+      const xml = `<workbook>
+        <sheet name="people"><row><id>1</id><name>Ada</name></row><row><id>2</id><name>Bob</name></row></sheet>
+        <sheet name="pets"><row><kind>cat</kind></row></sheet>
+      </workbook>`;
+
+      expect(JSON.parse(await run(xml, 'xml', 'json'))).toEqual({
+        people: [
+          { id: '1', name: 'Ada' },
+          { id: '2', name: 'Bob' },
+        ],
+        pets: [{ kind: 'cat' }],
+      });
+    });
+
+    it('should read back the /csv-xml item shape with attributes', async () => {
+      const xml = `<data><item id="1"><name>Ada</name></item><item id="2"><name>Bob</name></item></data>`;
+
+      expect(JSON.parse(await run(xml, 'xml', 'json'))).toEqual({
+        data: [
+          { id: '1', name: 'Ada' },
+          { id: '2', name: 'Bob' },
+        ],
+      });
+    });
+
+    it('should read repeated records of the sample file as rows', async () => {
+      const xml = fs.readFileSync(
+        path.join(__dirname, '..', 'test files', 'xml.xml'),
+        'utf8'
+      );
+      const { dataset } = JSON.parse(await run(xml, 'xml', 'json'));
+
+      expect(dataset).toHaveLength(10);
+      expect(dataset[0]).toEqual({
+        id: '1',
+        first_name: 'Rosamond',
+        last_name: 'Almond',
+        email: 'ralmond0@dropbox.com',
+        gender: 'Female',
+        ip_address: '149.250.226.119',
+      });
+    });
+
+    it('should keep attributes apart from child elements', async () => {
+      const xml = `<shop><name>Corner</name>
+        <order id="7" status="paid"><status>open</status><line sku="a">2</line><line sku="b">1</line></order>
+        <order id="8"><line sku="c">5</line></order>
+      </shop>`;
+
+      expect(JSON.parse(await run(xml, 'xml', 'json'))).toEqual({
+        order: [
+          {
+            id: '7',
+            '@status': 'paid',
+            status: 'open',
+            line: [
+              { sku: 'a', '#text': '2' },
+              { sku: 'b', '#text': '1' },
+            ],
+          },
+          { id: '8', line: { sku: 'c', '#text': '5' } },
+        ],
+      });
+    });
+
+    it('should read each group of repeated elements as a table', async () => {
+      const xml = `<library>
+        <books><book><title>A</title></book><book><title>B</title></book></books>
+        <members><member name="x"/><member name="y"/></members>
+      </library>`;
+
+      expect(JSON.parse(await run(xml, 'xml', 'json'))).toEqual({
+        books: [{ title: 'A' }, { title: 'B' }],
+        members: [{ name: 'x' }, { name: 'y' }],
+      });
+      expect(await run(xml, 'xml', 'sql')).toContain(
+        "INSERT INTO `members` (`name`) VALUES ('y');"
+      );
+    });
+  });
+
+  describe('XML output', () => {
+    it('should write scalar and null array items as elements', async () => {
+      const json = JSON.stringify({
+        name: 'Ada',
+        tags: ['math', 'code'],
+        scores: [1, true, null],
+        grid: [[1, 2]],
+        pets: [{ kind: 'cat' }, null],
+      });
+
+      expect(await run(json, 'json', 'xml')).toBe(
+        [
+          '<?xml version="1.0"?>',
+          '<root>',
+          '  <name>Ada</name>',
+          '  <tags>math</tags>',
+          '  <tags>code</tags>',
+          '  <scores>1</scores>',
+          '  <scores>true</scores>',
+          '  <scores/>',
+          '  <grid>',
+          '    <item>1</item>',
+          '    <item>2</item>',
+          '  </grid>',
+          '  <pets>',
+          '    <kind>cat</kind>',
+          '  </pets>',
+          '  <pets/>',
+          '</root>',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('CSV output', () => {
+    it('should write large numbers in full', async () => {
+      const json = '[{"id": 123456789012, "at": 1700000000000, "score": 0.1}]';
+
+      expect(await run(json, 'json', 'csv')).toBe(
+        'id,at,score\n123456789012,1700000000000,0.1'
+      );
+    });
+  });
+
+  describe('CSV input', () => {
+    const read = async (input: Buffer | string, options = {}) => {
+      const result = await convert(Buffer.from(input), {
+        from: 'csv',
+        to: 'json',
+        fileName: 'data',
+        ...options,
+      });
+      return JSON.parse(result.data.toString());
+    };
+
+    it('should detect the delimiter and keep quoted separators', async () => {
+      const csv = 'name;note\n"Smith; J";"a, b\nc"\nDoe;""""\n';
+
+      expect(await read(csv)).toEqual([
+        { name: 'Smith; J', note: 'a, b\nc' },
+        { name: 'Doe', note: '"' },
+      ]);
+    });
+
+    it('should decode UTF-16 with a BOM and Latin-1', async () => {
+      const utf16 = Buffer.concat([
+        Buffer.from([0xff, 0xfe]),
+        Buffer.from('a\tb\n1\tx\n', 'utf16le'),
+      ]);
+      expect(await read(utf16)).toEqual([{ a: '1', b: 'x' }]);
+
+      const latin1 = Buffer.from('name|city\nJosé|Zürich\n', 'latin1');
+      expect(await read(latin1)).toEqual([{ name: 'José', city: 'Zürich' }]);
+    });
+
+    it('should skip rows and comments and name columns without a header', async () => {
+      const csv = 'Monthly report\n# exported today\n1,Ada\n2,Bob,#1\n';
+
+      expect(
+        await read(csv, { header: 'false', skipRows: '1', comment: '#' })
+      ).toEqual([
+        { column1: '1', column2: 'Ada' },
+        { column1: '2', column2: 'Bob', column3: '#1' },
+      ]);
+    });
+
+    it('should use the given quote, escape and delimiter', async () => {
+      const csv = "a,b\n'x\\'s, y',2\n";
+
+      expect(
+        await read(csv, {
+          quoteChar: "'",
+          escapeChar: '\\',
+          delimiter: 'comma',
+        })
+      ).toEqual([{ a: "x's, y", b: '2' }]);
+    });
+  });
+
+  describe('nested JSON', () => {
+    const people = JSON.stringify([
+      { id: 1, address: { city: 'Lagos' }, tags: ['a', 'b'] },
+      { id: 2, address: { city: 'Abuja' }, tags: [] },
+    ]);
+
+    it('should join arrays by default', async () => {
+      expect(await run(people, 'json', 'csv')).toBe(
+        'id,address.city,tags\n1,Lagos,"a, b"\n2,Abuja,'
+      );
+    });
+
+    it('should spread arrays over indexed columns', async () => {
+      const result = await convert(Buffer.from(people), {
+        from: 'json',
+        to: 'csv',
+        fileName: 'data',
+        arrays: 'index',
+      });
+
+      expect(result.data.toString()).toBe(
+        'id,address.city,tags.0,tags.1\n1,Lagos,a,b\n2,Abuja,,'
+      );
+    });
+
+    it('should explode arrays into rows', async () => {
+      const result = await convert(Buffer.from(people), {
+        from: 'json',
+        to: 'csv',
+        fileName: 'data',
+        arrays: 'explode',
+      });
+
+      expect(result.data.toString()).toBe(
+        'id,address.city,tags\n1,Lagos,a\n1,Lagos,b\n2,Abuja,'
+      );
+    });
+
+    it('should rebuild nested documents from dotted headers', async () => {
+      const csv = 'id,address.city,tags.0,tags.1\n1,Lagos,a,b\n2,Abuja,c,\n';
+      const result = await convert(Buffer.from(csv), {
+        from: 'csv',
+        to: 'json',
+        fileName: 'data',
+        unflatten: 'true',
+      });
+
+      expect(JSON.parse(result.data.toString())).toEqual([
+        { id: '1', address: { city: 'Lagos' }, tags: ['a', 'b'] },
+        { id: '2', address: { city: 'Abuja' }, tags: ['c'] },
+      ]);
+    });
+  });
+
+  describe('Excel input', () => {
+    // Report sheet: a title banner, a header on row 3, a hidden column C,
+    // a hidden row 5 and a totals footer. Notes is a hidden sheet.
+    const workbookFile = () => {
+      const report = xlsx.utils.aoa_to_sheet([
+        ['Sales report'],
+        [],
+        ['region', 'amount', 'internal'],
+        ['North', 10, 'x'],
+        ['South', 20, 'y'],
+        ['East', 30, 'z'],
+        ['Total', 60],
+      ]);
+      report['!rows'] = [];
+      report['!rows'][4] = { hidden: true };
+      report['!cols'] = [{}, {}, { hidden: true }];
+
+      const workbook = xlsx.utils.book_new();
+      xlsx.utils.book_append_sheet(workbook, report, 'Report');
+      xlsx.utils.book_append_sheet(
+        workbook,
+        xlsx.utils.aoa_to_sheet([['note'], ['draft']]),
+        'Notes'
+      );
+      workbook.Workbook = { Sheets: [{}, { Hidden: 1 }] };
+      return xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+    };
+
+    const read = async (options: { [key: string]: any }) => {
+      const result = await convert(workbookFile(), {
+        from: 'excel',
+        to: 'json',
+        fileName: 'data',
+        ...options,
+      });
+      return JSON.parse(result.data.toString());
+    };
+
+    it('should pick sheets and set the header row and footer', async () => {
+      expect(
+        await read({ sheets: 'Report', headerRow: '3', skipFooter: '1' })
+      ).toEqual({
+        Report: [
+          { region: 'North', amount: 10, internal: 'x' },
+          { region: 'South', amount: 20, internal: 'y' },
+          { region: 'East', amount: 30, internal: 'z' },
+        ],
+      });
+    });
+
+    it('should leave out hidden sheets, rows and columns', async () => {
+      expect(
+        await read({ skipRows: '2', skipFooter: '1', includeHidden: 'false' })
+      ).toEqual({
+        Report: [
+          { region: 'North', amount: 10 },
+          { region: 'East', amount: 30 },
+        ],
+      });
+    });
+
+    it('should read a range by sheet position without a header', async () => {
+      expect(
+        await read({ sheets: '[2, 1]', range: 'A4:B5', header: 'false' })
+      ).toEqual({
+        Notes: [],
+        Report: [
+          { column1: 'North', column2: 10 },
+          { column1: 'South', column2: 20 },
+        ],
+      });
+    });
+
+    it('should reject unknown sheets', async () => {
+      await expect(read({ sheets: 'Missing' })).rejects.toThrow(
+        'Sheet not found: Missing.'
+      );
+    });
+  });
+
+  describe('Excel round trip', () => {
+    const workbookFile = () => {
+      const workbook = xlsx.utils.book_new();
+      xlsx.utils.book_append_sheet(
+        workbook,
+        xlsx.utils.aoa_to_sheet([
+          ['id', 'note', 'joined', 'active'],
+          [1, null, new Date(Date.UTC(2024, 0, 31)), true],
+          [2, 'b', new Date(Date.UTC(2024, 1, 1)), false],
+        ]),
+        'Zeta'
+      );
+      xlsx.utils.book_append_sheet(
+        workbook,
+        xlsx.utils.aoa_to_sheet([['name'], ['a']]),
+        'Alpha'
+      );
+      return xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+    };
+
+    const step = async (input: Buffer, from: string, to: string) =>
+      (await convert(input, { from, to, fileName: 'book' })).data as Buffer;
+
+    it('should keep sheets, columns and values through JSON', async () => {
+      const json = await step(workbookFile(), 'excel', 'json');
+      const workbook = xlsx.read(
+        await step(Buffer.from(json), 'json', 'excel')
+      );
+
+      expect(workbook.SheetNames).toEqual(['Zeta', 'Alpha']);
+      expect(
+        xlsx.utils.sheet_to_json(workbook.Sheets.Zeta, { header: 1 })[0]
+      ).toEqual(['id', 'note', 'joined', 'active']);
+      expect(
+        (
+          await step(
+            await step(Buffer.from(json), 'json', 'excel'),
+            'excel',
+            'json'
+          )
+        ).toString()
+      ).toBe(json.toString());
+    });
+
+    it('should read the zip written by excel to CSV back into a workbook', async () => {
+      const zip = await step(workbookFile(), 'excel', 'csv');
+      const result = await convert(zip, {
+        from: 'csv',
+        to: 'json',
+        fileName: 'book.xlsx',
+      });
+
+      expect(Object.keys(JSON.parse(result.data.toString()))).toEqual([
+        'Zeta',
+        'Alpha',
+      ]);
+      expect(JSON.parse(result.data.toString()).Alpha).toEqual([{ name: 'a' }]);
+    });
+  });
+
+  describe('SQL output', () => {
+    it('should infer column types for the CREATE TABLE', async () => {
+      const csv = [
+        'id,name,price,active,joined,seen,zip',
+        '1,"O\'Brien",1.5,true,2024-01-31,2024-01-31T10:00:00Z,01234',
+        '2,Ada,20.25,false,,2024-02-01 08:30:00,98765',
+      ].join('\n');
+      const sql = await run(csv, 'csv', 'sql');
+
+      expect(sql).toContain(
+        [
+          'CREATE TABLE `data` (',
+          '  `id` INT NOT NULL,',
+          '  `name` VARCHAR(7) NOT NULL,',
+          '  `price` DECIMAL(4, 2) NOT NULL,',
+          '  `active` BOOLEAN NOT NULL,',
+          '  `joined` DATE,',
+          '  `seen` DATETIME NOT NULL,',
+          '  `zip` VARCHAR(5) NOT NULL,',
+          '  PRIMARY KEY (`id`)',
+          ');',
+        ].join('\n')
+      );
+      expect(sql).toContain(
+        "VALUES (2, 'Ada', 20.25, FALSE, NULL, '2024-02-01 08:30:00', '98765');"
+      );
+    });
+
+    it('should apply column type and primary key overrides', async () => {
+      const result = await convert(Buffer.from('id,code\n1,a\n2,b'), {
+        from: 'csv',
+        to: 'sql',
+        fileName: 'data',
+        dialect: 'postgres',
+        columnTypes: '{"code":"CHAR(1)"}',
+        primaryKey: 'code',
+      });
+
+      expect(result.data).toContain('"code" CHAR(1) NOT NULL');
+      expect(result.data).toContain('PRIMARY KEY ("code")');
+    });
+  });
+
+  describe('SQL dialects', () => {
+    const json = JSON.stringify([
+      { order: 1, name: "O'Brien\\", active: true, note: null },
+    ]);
+
+    it.each([
+      [
+        'mysql',
+        "INSERT INTO `data` (`order`, `name`, `active`, `note`) VALUES (1, 'O''Brien\\\\', TRUE, NULL);",
+      ],
+      [
+        'postgres',
+        `INSERT INTO "data" ("order", "name", "active", "note") VALUES (1, 'O''Brien\\', TRUE, NULL);`,
+      ],
+      [
+        'sqlite',
+        `INSERT INTO "data" ("order", "name", "active", "note") VALUES (1, 'O''Brien\\', 1, NULL);`,
+      ],
+      [
+        'sqlserver',
+        "INSERT INTO [data] ([order], [name], [active], [note]) VALUES (1, N'O''Brien\\', 1, NULL);",
+      ],
+    ])('should write %s literals', async (dialect, expected) => {
+      const result = await convert(Buffer.from(json), {
+        from: 'json',
+        to: 'sql',
+        fileName: 'data',
+        dialect,
+      });
+
+      expect(result.data).toContain(expected);
+    });
+
+    it.each(['mysql', 'postgres', 'sqlite', 'sqlserver'])(
+      'should read %s output back with its backslashes',
+      async (dialect) => {
+        const rows = [{ id: 1, path: 'C:\\temp\\new', quote: "it's \\" }];
+        const sql = await convert(Buffer.from(JSON.stringify(rows)), {
+          from: 'json',
+          to: 'sql',
+          fileName: 'data',
+          dialect,
+        });
+
+        expect(JSON.parse(await run(String(sql.data), 'sql', 'json'))).toEqual({
+          data: rows,
+        });
+      }
+    );
+
+    it('should take backslash escapes from MySQL dumps or E strings', async () => {
+      const sql = "INSERT INTO t (a, b) VALUES ('C:\\new', E'tab\\there');";
+      expect(JSON.parse(await run(sql, 'sql', 'json'))).toEqual({
+        t: [{ a: 'C:\\new', b: 'tab\there' }],
+      });
+
+      // The dialect option is for the output, the dump is still MySQL
+      const dump = "INSERT INTO `t` (`a`) VALUES ('It\\'s');";
+      const result = await convert(Buffer.from(dump), {
+        from: 'sql',
+        to: 'sql',
+        fileName: 'data',
+        dialect: 'postgres',
+      });
+      expect(String(result.data)).toContain(
+        'INSERT INTO "t" ("a") VALUES (\'It\'\'s\');'
+      );
+    });
+
+    it('should only quote reserved words with quote=auto', async () => {
+      const result = await convert(Buffer.from(json), {
+        from: 'json',
+        to: 'sql',
+        fileName: 'data',
+        dialect: 'postgres',
+        quote: 'auto',
+      });
+
+      expect(result.data).toContain('INSERT INTO data ("order", name, active');
+    });
+  });
+
+  describe('SQLite', () => {
+    const workbook = () => {
+      const book = xlsx.utils.book_new();
+      xlsx.utils.book_append_sheet(
+        book,
+        xlsx.utils.aoa_to_sheet([
+          ['id', 'name', 'price', 'active'],
+          [1, 'Ada', 1.5, true],
+          [2, "O'Brien", 2, false],
+        ]),
+        'Products'
+      );
+      xlsx.utils.book_append_sheet(
+        book,
+        xlsx.utils.aoa_to_sheet([
+          ['product', 'quantity'],
+          [1, 3],
+          [1, 4],
+        ]),
+        'Orders'
+      );
+      return xlsx.write(book, { type: 'buffer', bookType: 'xlsx' });
+    };
+
+    const toSqlite = async () =>
+      (
+        await convert(workbook(), {
+          from: 'excel',
+          to: 'sqlite',
+          fileName: 'shop',
+        })
+      ).data as Buffer;
+
+    it('should build a database with one typed table per sheet', async () => {
+      const db = await toSqlite();
+      expect(db.subarray(0, 15).toString()).toBe('SQLite format 3');
+
+      const result = await convert(db, {
+        from: 'sqlite',
+        to: 'json',
+        fileName: 'shop',
+      });
+      expect(JSON.parse(result.data.toString())).toEqual({
+        Products: [
+          { id: 1, name: 'Ada', price: 1.5, active: 1 },
+          { id: 2, name: "O'Brien", price: 2, active: 0 },
+        ],
+        Orders: [
+          { product: 1, quantity: 3 },
+          { product: 1, quantity: 4 },
+        ],
+      });
+    });
+
+    it('should export chosen tables or a SELECT', async () => {
+      const db = await toSqlite();
+      const orders = await convert(db, {
+        from: 'sqlite',
+        to: 'json',
+        fileName: 'shop',
+        tables: 'Orders',
+      });
+      expect(JSON.parse(orders.data.toString())).toEqual({
+        Orders: [
+          { product: 1, quantity: 3 },
+          { product: 1, quantity: 4 },
+        ],
+      });
+
+      const totals = await convert(db, {
+        from: 'db',
+        to: 'csv',
+        fileName: 'shop',
+        query:
+          'SELECT name, SUM(quantity) AS sold FROM Products JOIN Orders ON product = id GROUP BY name',
+      });
+      expect(totals.data).toBe('name,sold\nAda,7');
+
+      await expect(
+        convert(db, {
+          from: 'sqlite',
+          to: 'csv',
+          fileName: 'shop',
+          query: 'DROP TABLE Orders',
+        })
+      ).rejects.toThrow('The "query" option must be a SELECT.');
+    });
+  });
+
+  describe('YAML and TOML', () => {
+    const manifests = [
+      'kind: Service',
+      'metadata:',
+      '  name: web',
+      '  labels: {app: web}',
+      '---',
+      'kind: Deployment',
+      'metadata:',
+      '  name: api',
+      '',
+    ].join('\n');
+
+    it('should read every document of a YAML stream as a row', async () => {
+      expect(await run(manifests, 'yaml', 'csv')).toBe(
+        'kind,metadata.name,metadata.labels.app\nService,web,web\nDeployment,api,'
+      );
+    });
+
+    it('should write nested documents as TOML tables', async () => {
+      expect(await run(manifests, 'yaml', 'toml')).toBe(
+        [
+          '[[data]]',
+          'kind = "Service"',
+          '',
+          '[data.metadata]',
+          'name = "web"',
+          '',
+          '[data.metadata.labels]',
+          'app = "web"',
+          '',
+          '[[data]]',
+          'kind = "Deployment"',
+          '',
+          '[data.metadata]',
+          'name = "api"',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should turn a TOML config into YAML', async () => {
+      const toml =
+        'title = "shop"\n\n[server]\nport = 8080\nstarted = 2024-01-05\n\n[[users]]\nname = "Ada"\nroles = ["admin"]\n';
+
+      expect(await run(toml, 'toml', 'yaml')).toBe(
+        [
+          'title: shop',
+          'server:',
+          '  port: 8080',
+          '  started: 2024-01-05',
+          'users:',
+          '  - name: Ada',
+          '    roles:',
+          '      - admin',
+          '',
+        ].join('\n')
+      );
+      await expect(run('port = = 1', 'toml', 'json')).rejects.toThrow(
+        'Error parsing TOML file. Invalid TOML document: invalid value at line 1, column 8'
+      );
+    });
+
+    it('should write YAML and TOML lists as repeated XML elements', async () => {
+      const yaml =
+        'kind: Pod\nspec:\n  args: [serve, --port, 8080]\n  env: [~]\n';
+      expect(await run(yaml, 'yaml', 'xml')).toBe(
+        [
+          '<?xml version="1.0"?>',
+          '<root>',
+          '  <kind>Pod</kind>',
+          '  <spec>',
+          '    <args>serve</args>',
+          '    <args>--port</args>',
+          '    <args>8080</args>',
+          '    <env/>',
+          '  </spec>',
+          '</root>',
+        ].join('\n')
+      );
+
+      const toml = 'ports = [80, 443]\n\n[owner]\nroles = ["admin", "ops"]\n';
+      expect(await run(toml, 'toml', 'xml')).toBe(
+        [
+          '<?xml version="1.0"?>',
+          '<root>',
+          '  <ports>80</ports>',
+          '  <ports>443</ports>',
+          '  <owner>',
+          '    <roles>admin</roles>',
+          '    <roles>ops</roles>',
+          '  </owner>',
+          '</root>',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('Parquet and Arrow', () => {
+    const csv =
+      'id,name,score,joined,seen,active,visits\n1,Ada,9.5,2024-01-05,2024-01-05 10:00:00,true,12345678901\n2,Grace,,1906-12-09,,false,';
+    const toFile = async (to: string, options: any = {}) =>
+      (
+        await convert(Buffer.from(csv), {
+          from: 'csv',
+          to,
+          fileName: 'people',
+          ...options,
+        })
+      ).data as Buffer;
+
+    it('should write Arrow with a schema inferred from the data', async () => {
+      const arrow = await toFile('arrow');
+
+      expect(
+        tableFromIPC(arrow).schema.fields.map(
+          (field) => `${field.name}: ${field.type}`
+        )
+      ).toEqual([
+        'id: Int32',
+        'name: Utf8',
+        'score: Float64',
+        'joined: Date32<DAY>',
+        'seen: Timestamp<MILLISECOND, UTC>',
+        'active: Bool',
+        'visits: Int64',
+      ]);
+    });
+
+    it.each(['arrow', 'parquet'])(
+      'should read %s back as typed values',
+      async (format) => {
+        const result = await convert(await toFile(format), {
+          from: format,
+          to: 'json',
+          fileName: 'people',
+        });
+
+        expect(JSON.parse(result.data.toString())).toEqual([
+          {
+            id: 1,
+            name: 'Ada',
+            score: 9.5,
+            joined: '2024-01-05T00:00:00.000Z',
+            seen: '2024-01-05T10:00:00.000Z',
+            active: true,
+            visits: 12345678901,
+          },
+          {
+            id: 2,
+            name: 'Grace',
+            score: null,
+            joined: '1906-12-09T00:00:00.000Z',
+            seen: null,
+            active: false,
+            visits: null,
+          },
+        ]);
+      }
+    );
+
+    it('should read timestamps without an offset as UTC', async () => {
+      const arrow = await convert(Buffer.from('seen\n2024-01-01 08:30'), {
+        from: 'csv',
+        to: 'arrow',
+        fileName: 'people',
+      });
+      const seen = tableFromIPC(arrow.data as Buffer).getChild('seen')!;
+      expect(new Date(seen.get(0)).toISOString()).toBe(
+        '2024-01-01T08:30:00.000Z'
+      );
+    });
+
+    it('should compress Parquet with snappy or gzip', async () => {
+      const parquet = await toFile('parquet', { compression: 'gzip' });
+      expect(parquet.subarray(0, 4).toString()).toBe('PAR1');
+
+      const excel = await convert(parquet, {
+        from: 'parquet',
+        to: 'excel',
+        fileName: 'people',
+      });
+      const sheet = xlsx.read(excel.data).Sheets.people;
+      expect(xlsx.utils.sheet_to_json(sheet)).toHaveLength(2);
+
+      await expect(toFile('parquet', { compression: 'lzo' })).rejects.toThrow(
+        'Unsupported compression option: lzo. Expected one of snappy, gzip, none.'
+      );
+    });
+  });
+
+  describe('MongoDB Extended JSON', () => {
+    const mongoexport = [
+      '{"_id":{"$oid":"65a1b2c3d4e5f60718293a4b"},"name":"Ada","joined":{"$date":"2024-01-05T10:00:00Z"},"visits":{"$numberLong":"42"},"balance":{"$numberDecimal":"10.25"}}',
+      '{"_id":{"$oid":"65a1b2c3d4e5f60718293a4c"},"name":"Grace","joined":{"$date":{"$numberLong":"-1990137600000"}},"visits":{"$numberInt":"7"},"balance":{"$numberDecimal":"12345678901234567890.5"}}',
+    ].join('\n');
+
+    it('should read mongoexport files as plain ids, dates and numbers', async () => {
+      expect(await run(mongoexport, 'json', 'csv')).toBe(
+        [
+          '_id,name,joined,visits,balance',
+          '65a1b2c3d4e5f60718293a4b,Ada,2024-01-05T10:00:00.000Z,42,10.25',
+          '65a1b2c3d4e5f60718293a4c,Grace,1906-12-09T00:00:00.000Z,7,12345678901234567890.5',
+        ].join('\n')
+      );
+      expect(await run(mongoexport, 'json', 'sql')).toContain(
+        "('65a1b2c3d4e5f60718293a4b', 'Ada', '2024-01-05 10:00:00', 42,"
+      );
+    });
+
+    it('should leave plain keys alone and reject invalid dates', async () => {
+      const json = '[{"constructor": "Bob", "toString": "a"}]';
+      expect(JSON.parse(await run(json, 'json', 'json'))).toEqual([
+        { constructor: 'Bob', toString: 'a' },
+      ]);
+      expect(await run(json, 'mongo', 'csv')).toBe(
+        'constructor,toString\nBob,a'
+      );
+
+      const error = await run(
+        '[{"d": {"$date": "garbage"}}]',
+        'json',
+        'csv'
+      ).catch((e) => e);
+      expect(error).toBeInstanceOf(ConversionError);
+      expect(error.status).toBe(400);
+      expect(error.message).toBe(
+        'Error parsing JSON file. Invalid $date: "garbage".'
+      );
+    });
+
+    it('should write relaxed Extended JSON for mongoimport', async () => {
+      const csv =
+        'id,_id,price,since,active,address.city\n1,65A1B2C3D4E5F60718293A4B,1.50,2024-01-05,true,Paris\n2,,2,,false,';
+      expect((await run(csv, 'csv', 'mongo')).split('\n')).toEqual([
+        '{"id":1,"_id":{"$oid":"65a1b2c3d4e5f60718293a4b"},"price":1.5,"since":{"$date":"2024-01-05T00:00:00.000Z"},"active":true,"address":{"city":"Paris"}}',
+        '{"id":2,"_id":"","price":2,"since":null,"active":false,"address":{"city":""}}',
+        '',
+      ]);
+    });
+
+    it('should write timestamps without an offset as UTC dates', async () => {
+      const csv = 'id,seen\n1,2024-01-05 10:30\n2,2024-01-05T10:30:00+02:00';
+      expect((await run(csv, 'csv', 'mongo')).split('\n')).toEqual([
+        '{"id":1,"seen":{"$date":"2024-01-05T10:30:00.000Z"}}',
+        '{"id":2,"seen":{"$date":"2024-01-05T08:30:00.000Z"}}',
+        '',
+      ]);
+    });
+
+    it('should round trip mongoexport files in canonical mode', async () => {
+      const result = await convert(Buffer.from(mongoexport), {
+        from: 'mongo',
+        to: 'mongo',
+        fileName: 'users',
+        jsonFormat: 'canonical',
+      });
+      const [first, second] = String(result.data).trim().split('\n');
+      expect(JSON.parse(first)).toEqual({
+        _id: { $oid: '65a1b2c3d4e5f60718293a4b' },
+        name: 'Ada',
+        joined: { $date: { $numberLong: '1704448800000' } },
+        visits: { $numberInt: '42' },
+        balance: { $numberDouble: '10.25' },
+      });
+      expect(JSON.parse(second).balance).toEqual({
+        $numberDecimal: '12345678901234567890.5',
+      });
+    });
+  });
+
+  describe('NDJSON', () => {
+    const ndjson = '{"id":1,"tags":{"a":"x"}}\n\n{"id":2,\n[3]\n{"id":4}\n';
+
+    it('should write and read one object per line', async () => {
+      const csv = 'id,name,address.city\n1,Ada,Paris\n2,Grace,';
+      const output = await run(csv, 'csv', 'ndjson');
+
+      expect(output).toBe(
+        '{"id":"1","name":"Ada","address.city":"Paris"}\n{"id":"2","name":"Grace","address.city":""}\n'
+      );
+      expect(await run(output, 'ndjson', 'csv')).toBe(csv);
+    });
+
+    it('should report malformed lines with their line numbers', async () => {
+      const error = await run(ndjson, 'ndjson', 'csv').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConversionError);
+      expect(error.status).toBe(400);
+      expect(error.message).toMatch(
+        /^Error parsing NDJSON file\. Malformed JSON on lines 3, 4\. Line 3: /
+      );
+      expect(error.details.malformedLines).toEqual([
+        { line: 3, message: expect.any(String) },
+        { line: 4, message: 'Expected a JSON object.' },
+      ]);
+    });
+
+    it('should leave out malformed lines with malformedLines=skip', async () => {
+      const result = await convert(Buffer.from(ndjson), {
+        from: 'ndjson',
+        to: 'csv',
+        fileName: 'data',
+        malformedLines: 'skip',
+      });
+
+      expect(result.data.toString()).toBe('id,tags.a\n1,x\n4,');
+    });
+  });
+
+  describe('streaming', () => {
+    // Feed the input in small chunks so values span chunk boundaries
+    const runStream = async (input: string, from: string, to: string) => {
+      const chunks = input.match(/[\s\S]{1,3}/g) || [];
+      let output = '';
+      const sink = new Writable({
+        write(chunk, encoding, callback) {
+          output += chunk.toString();
+          callback();
+        },
+      });
+
+      await streamConvert({ from, to, fileName: 'data' }).run(
+        Readable.from(chunks),
+        sink
+      );
+      return output;
+    };
+
+    it('should stream a JSON array to CSV', async () => {
+      const json = '[{"a": 1, "b": "x,\\"y\\""}, {"a": 2, "b": {"c": "]"}}]';
+
+      expect(await runStream(json, 'json', 'csv')).toBe(
+        'a,b,b.c\n1,"x,""y""",\n2,,]\n'
+      );
+    });
+
+    it('should stream NDJSON to JSON', async () => {
+      const ndjson = '{"a": 1}\n\n{"a": 2}\n';
+
+      expect(JSON.parse(await runStream(ndjson, 'json', 'json'))).toEqual([
+        { a: 1 },
+        { a: 2 },
+      ]);
+    });
+
+    it('should report the line of malformed NDJSON while streaming', async () => {
+      const ndjson = '{"a": 1}\n\n{"a": 2}\n{"a": }\n';
+
+      await expect(runStream(ndjson, 'ndjson', 'csv')).rejects.toThrow(
+        /^Malformed JSON on line 4\. Line 4: /
+      );
+      await expect(runStream(ndjson, 'json', 'csv')).rejects.toThrow(
+        /Line 4: /
+      );
+    });
+
+    it('should stream CSV with a BOM and a detected delimiter', async () => {
+      const csv = '\ufeffid;name\n1;"Ada; L"\n2;Bob\n';
+
+      expect(JSON.parse(await runStream(csv, 'csv', 'json'))).toEqual([
+        { id: '1', name: 'Ada; L' },
+        { id: '2', name: 'Bob' },
+      ]);
+    });
+
+    it('should explode arrays while streaming', async () => {
+      const ndjson =
+        '{"id": 1, "tags": ["a", "b"]}\n{"id": 2, "tags": ["c"]}\n';
+      let output = '';
+      const sink = new Writable({
+        write(chunk, encoding, callback) {
+          output += chunk.toString();
+          callback();
+        },
+      });
+
+      await streamConvert({
+        from: 'json',
+        to: 'csv',
+        fileName: 'data',
+        arrays: 'explode',
+      }).run(Readable.from([ndjson]), sink);
+      expect(output).toBe('id,tags\n1,a\n1,b\n2,c\n');
+    });
+
+    it('should stream a SQL dump table by table', async () => {
+      const sql = `/* a; b */ CREATE TABLE \`t\` (a int, b text);
+        INSERT INTO t VALUES (1, 'x;y'), (2, 'it''s'); -- c;
+        INSERT INTO u (c) VALUES ('a\\';b');`;
+
+      expect(JSON.parse(await runStream(sql, 'sql', 'json'))).toEqual({
+        t: [
+          { a: 1, b: 'x;y' },
+          { a: 2, b: "it's" },
+        ],
+        u: [{ c: "a';b" }],
+      });
+    });
+
+    it('should fail on a column that first appears after the sample', async () => {
+      const rows = Array.from({ length: 1000 }, (_, i) => `{"id": ${i + 1}}`);
+      const ndjson = [...rows, '{"id": 1001, "extra": null}'].join('\n');
+
+      expect((await runStream(ndjson, 'ndjson', 'csv')).split('\n')[1001]).toBe(
+        '1001'
+      );
+      await expect(
+        runStream(`${ndjson}\n{"id": 1002, "extra": "x"}`, 'ndjson', 'csv')
+      ).rejects.toThrow(
+        'Column "extra" of table "data" first appears after the first 1000 rows'
+      );
+      expect(
+        JSON.parse(
+          await runStream(
+            `${ndjson}\n{"id": 1002, "extra": "x"}`,
+            'ndjson',
+            'json'
+          )
+        )[1001]
+      ).toEqual({ id: 1002, extra: 'x' });
+    });
+
+    it('should only report reader errors as parse errors', async () => {
+      const sink = new Writable({
+        highWaterMark: 1,
+        write(chunk, encoding, callback) {
+          callback(new Error('No space left on device'));
+        },
+      });
+      const error = await streamConvert({
+        from: 'csv',
+        to: 'json',
+        fileName: 'data',
+      })
+        .run(Readable.from(['a\n1\n']), sink)
+        .catch((e) => e);
+
+      expect(error).not.toBeInstanceOf(ConversionError);
+      expect(error.message).toBe('No space left on device');
+      await expect(runStream('{"a": }', 'json', 'csv')).rejects.toThrow(
+        /^Error parsing JSON file\. /
+      );
+    });
+
+    it('should reject formats without a streaming path', () => {
+      expect(() =>
+        streamConvert({ from: 'excel', to: 'csv', fileName: 'data' })
+      ).toThrow(ConversionError);
+    });
+  });
+
+  it('should accept a readable stream as input', async () => {
+    const result = await convert(Readable.from([Buffer.from('a,b\n1,2\n')]), {
+      from: 'csv',
+      to: 'json',
+      fileName: 'data',
+    });
+
+    expect(JSON.parse(result.data.toString())).toEqual([{ a: '1', b: '2' }]);
+  });
+
+  it('should reject unknown formats', async () => {
+    await expect(run('a', 'csv', 'pdf')).rejects.toBeInstanceOf(
+      ConversionError
+    );
+  });
+});
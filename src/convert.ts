@@ -0,0 +1,285 @@
+import { Readable, Writable } from 'stream';
+import './formats';
+import { ConversionError } from './errors';
+import { mapDataset, mapRecords, parseMapping } from './mapping';
+import { parseQuery, queryDataset, queryRecords } from './query';
+import { getFormat } from './registry';
+import { readBuffer } from './stream';
+import {
+  bundleValidation,
+  getInvalidRowsMode,
+  parseSchema,
+  reportFile,
+  ValidationResult,
+  validateDataset,
+} from './validate';
+import { ArrayMode, createTable, expandRow, getArrayMode } from './table';
+import {
+  ConvertOptions,
+  ConvertedFile,
+  Dataset,
+  Format,
+  Row,
+  StreamSource,
+  StreamWriter,
+} from './types';
+
+export interface ConvertRequest extends ConvertOptions {
+  from: string;
+  to: string;
+}
+
+const PROGRESS_INTERVAL = 1000;
+
+const throwIfCancelled = (options: ConvertOptions) => {
+  if (options.signal?.aborted) {
+    throw new ConversionError('Conversion cancelled.', 409);
+  }
+};
+
+// Count streamed rows for options.onProgress and stop on options.signal
+const trackProgress = (
+  source: StreamSource,
+  options: ConvertOptions
+): StreamSource => ({
+  ...source,
+  records: (async function* () {
+    let rows = 0;
+    for await (const record of source.records) {
+      throwIfCancelled(options);
+      yield record;
+      if (++rows % PROGRESS_INTERVAL === 0) options.onProgress?.(rows);
+    }
+    options.onProgress?.(rows);
+  })(),
+});
+
+const countRows = (dataset: Dataset) =>
+  dataset.tables.reduce((total, table) => total + table.rows.length, 0);
+
+// Index or explode arrays (options.arrays) before the rows reach the writer.
+// The nested document no longer matches the rows, so it is dropped.
+// rowNumbers holds the source row of every expanded row, per table.
+const expandDataset = (
+  dataset: Dataset,
+  arrays: ArrayMode
+): { dataset: Dataset; rowNumbers: number[][] } => {
+  if (arrays === 'join') {
+    const rowNumbers = dataset.tables.map((table) =>
+      table.rows.map((row, i) => i + 1)
+    );
+    return { dataset, rowNumbers };
+  }
+
+  const rowNumbers: number[][] = [];
+  const { document, ...rest } = dataset;
+  const tables = dataset.tables.map((table) => {
+    const rows: Row[] = [];
+    const numbers: number[] = [];
+    table.rows.forEach((row, i) => {
+      expandRow(row, arrays).forEach((expanded) => {
+        rows.push(expanded);
+        numbers.push(i + 1);
+      });
+    });
+    rowNumbers.push(numbers);
+    return createTable(table.name, rows);
+  });
+  return { dataset: { ...rest, tables }, rowNumbers };
+};
+
+// Reader failures become parse errors. Errors of the writer or the output
+// are not about the input, so they are left as they are.
+const readErrors = (format: Format, source: StreamSource): StreamSource => ({
+  ...source,
+  records: (async function* () {
+    try {
+      yield* source.records;
+    } catch (e: any) {
+      if (e instanceof ConversionError) throw e;
+      throw new ConversionError(
+        `Error parsing ${format.name.toUpperCase()} file. ${e.message}`
+      );
+    }
+  })(),
+});
+
+const expandRecords = (
+  source: StreamSource,
+  arrays: ArrayMode
+): StreamSource => {
+  if (arrays === 'join') return source;
+  return {
+    ...source,
+    records: (async function* () {
+      for await (const { table, row } of source.records) {
+        for (const expanded of expandRow(row, arrays)) {
+          yield { table, row: expanded };
+        }
+      }
+    })(),
+  };
+};
+
+// Read with the format's reader, reporting failures as parse errors along
+// with their details (e.g. malformed lines)
+export const readDataset = async (
+  format: Format,
+  input: Buffer,
+  options: ConvertOptions
+): Promise<Dataset> => {
+  try {
+    return await format.read!(input, options);
+  } catch (e: any) {
+    throw new ConversionError(
+      `Error parsing ${format.name.toUpperCase()} file. ${e.message}`,
+      400,
+      e.details
+    );
+  }
+};
+
+// Load a dataset once the options are known to be valid, then index or
+// explode arrays, map, query and validate it. Invalid rows fail unless
+// options.invalidRows drops or quarantines them, or only the validation
+// report is asked for.
+export const loadDataset = async (
+  load: () => Promise<Dataset>,
+  options: ConvertOptions
+): Promise<{ dataset: Dataset; validation?: ValidationResult }> => {
+  const arrays = getArrayMode(options.arrays);
+  const mapping = parseMapping(options.mapping);
+  const query = parseQuery(options);
+  const schema = parseSchema(options.schema);
+  const invalidRows = getInvalidRowsMode(options.invalidRows);
+
+  let dataset = await load();
+
+  // Without streaming, rows are only counted once the whole input is read
+  options.onProgress?.(countRows(dataset));
+  throwIfCancelled(options);
+  const expanded = expandDataset(dataset, arrays);
+  dataset = expanded.dataset;
+  if (mapping) dataset = mapDataset(dataset, mapping);
+
+  // Mapping keeps rows in place, so each row is paired with its source row
+  // number before the query filters and sorts them
+  const rowNumbers = new Map<Row, number>();
+  if (schema) {
+    dataset.tables.forEach((table, t) => {
+      table.rows.forEach((row, i) => {
+        rowNumbers.set(row, expanded.rowNumbers[t][i]);
+      });
+    });
+  }
+
+  if (query) dataset = queryDataset(dataset, query);
+  if (!schema) return { dataset };
+
+  const validation = validateDataset(dataset, schema, rowNumbers);
+  const { report } = validation;
+  if (
+    report.invalid &&
+    invalidRows === 'fail' &&
+    String(options.validationReport) !== 'json'
+  ) {
+    throw new ConversionError(
+      `Validation failed: ${report.invalid} of ${
+        report.valid + report.invalid
+      } rows are invalid.`,
+      422,
+      report
+    );
+  }
+  return { dataset: validation.valid, validation };
+};
+
+// Serialize a loaded dataset with the "to" format's writer, for sources
+// other than uploaded files (databases)
+export const convertDataset = async (
+  load: () => Promise<Dataset>,
+  options: ConvertOptions & { to: string }
+): Promise<ConvertedFile> => {
+  const target = getFormat(options.to);
+  if (!target?.write) {
+    throw new ConversionError(`Unsupported output format: ${options.to}`);
+  }
+  const { dataset, validation } = await loadDataset(load, options);
+  if (validation && String(options.validationReport) === 'json') {
+    return reportFile(validation.report);
+  }
+
+  const result = await target.write(dataset, options);
+  options.onProgress?.(countRows(dataset));
+  if (!validation?.report.invalid) return result;
+
+  // Dropped or quarantined rows: send the report along with the output
+  const quarantine =
+    getInvalidRowsMode(options.invalidRows) === 'quarantine'
+      ? await target.write(validation.invalid, options)
+      : undefined;
+  return bundleValidation(result, validation.report, quarantine, options);
+};
+
+// Read the input into the common model with the "from" format's reader,
+// then serialize it with the "to" format's writer. Streams are read into
+// memory first, use streamConvert to convert them row by row.
+export const convert = async (
+  input: Buffer | Readable,
+  options: ConvertRequest
+): Promise<ConvertedFile> => {
+  const source = getFormat(options.from);
+  if (!source?.read) {
+    throw new ConversionError(`Unsupported input format: ${options.from}`);
+  }
+
+  return convertDataset(async () => {
+    const data = Buffer.isBuffer(input) ? input : await readBuffer(input);
+    return readDataset(source, data, options);
+  }, options);
+};
+
+export interface StreamConversion {
+  extension: string;
+  contentType: string;
+  run: (input: Readable, output: Writable) => Promise<void>;
+}
+
+// Row by row conversion that keeps memory flat regardless of input size.
+// Only formats with streaming readers/writers (csv, json, sql) qualify.
+export const streamConvert = (options: ConvertRequest): StreamConversion => {
+  const source = getFormat(options.from);
+  const target = getFormat(options.to);
+  if (!source?.readStream || !target?.writeStream) {
+    throw new ConversionError(
+      `Streaming is not supported from ${options.from} to ${options.to}.`
+    );
+  }
+  if (options.schema) {
+    throw new ConversionError(
+      'Schema validation is not available when streaming.'
+    );
+  }
+  const readStream = source.readStream;
+  const writer: StreamWriter = target.writeStream;
+  const arrays = getArrayMode(options.arrays);
+  const mapping = parseMapping(options.mapping);
+  const query = parseQuery(options);
+  if (query?.sort) {
+    throw new ConversionError('Sorting is not available when streaming.');
+  }
+
+  return {
+    extension: writer.extension,
+    contentType: writer.contentType,
+    run: async (input, output) => {
+      let records = expandRecords(
+        trackProgress(readErrors(source, readStream(input, options)), options),
+        arrays
+      );
+      if (mapping) records = mapRecords(records, mapping);
+      if (query) records = queryRecords(records, query);
+      await writer.write(records, output, options);
+    },
+  };
+};
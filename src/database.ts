@@ -0,0 +1,334 @@
+import './connectors';
+import { convertDataset, loadDataset, readDataset } from './convert';
+import { ConversionError } from './errors';
+import { createSqlBuilder } from './formats/sql';
+import { formatIdentifier, getDialect } from './formats/sql-dialects';
+import { coerceValue, ColumnInfo, inferColumns } from './infer';
+import { parseIntegerOption, parseListOption } from './options';
+import { detectFormat } from './preview';
+import { getConnector, getFormat } from './registry';
+import { createRowBuilder, createTable, flatRows } from './table';
+import {
+  ConvertedFile,
+  ConvertOptions,
+  DatabaseConnection,
+  DatabaseConnector,
+  Dataset,
+  QueryResult,
+  Row,
+  Table,
+} from './types';
+
+const DEFAULT_BATCH_SIZE = 500;
+// Most parameters PostgreSQL and MySQL accept in one statement
+const MAX_PARAMETERS = 65535;
+const IF_EXISTS_MODES = ['append', 'replace', 'fail'];
+
+// Options of the database routes. Credentials never come from requests,
+// options.connection only names a connection configured in .env.
+export interface DatabaseRequest {
+  connection?: string;
+  // A table name or a list of them
+  table?: any;
+  [key: string]: any;
+}
+
+export interface ImportedTable {
+  name: string;
+  rows: number;
+  created: boolean;
+}
+
+// A table of the uploaded file and the database table it goes into
+interface ImportTarget {
+  name: string;
+  table: Table;
+  exists: boolean;
+  identifier: string;
+  infos: ColumnInfo[];
+}
+
+// DATABASE_URL by default, <NAME>_DATABASE_URL for connection=name
+const connectionUrl = (name?: string) => {
+  if (name && !/^\w+$/.test(name)) {
+    throw new ConversionError(`Invalid connection name: ${name}.`);
+  }
+  const variable = name ? `${name.toUpperCase()}_DATABASE_URL` : 'DATABASE_URL';
+  const url = process.env[variable];
+  if (!url) {
+    throw new ConversionError(
+      `No database configured. Set ${variable} in the .env file.`
+    );
+  }
+  return url;
+};
+
+// The connector is picked by the URL scheme, postgres:// or mysql://
+const openDatabase = async (name?: string) => {
+  const url = connectionUrl(name);
+  const scheme = url.slice(0, Math.max(url.indexOf(':'), 0));
+  const connector = getConnector(scheme);
+  if (!connector) {
+    throw new ConversionError(
+      `Unsupported database: ${scheme || url}. Expected postgres or mysql.`
+    );
+  }
+
+  try {
+    return { connector, connection: await connector.connect(url) };
+  } catch (e: any) {
+    throw new ConversionError(
+      `Could not connect to the database. ${e.message}`,
+      502
+    );
+  }
+};
+
+// Run statements on a connection that is closed afterwards, reporting
+// driver errors as conversion errors
+const withConnection = async <T>(
+  options: DatabaseRequest,
+  run: (connection: DatabaseConnection, connector: DatabaseConnector) => T
+): Promise<Awaited<T>> => {
+  const { connector, connection } = await openDatabase(options.connection);
+  try {
+    return await run(connection, connector);
+  } catch (e: any) {
+    if (e instanceof ConversionError) throw e;
+    throw new ConversionError(`Database error. ${e.message}`);
+  } finally {
+    await connection.close();
+  }
+};
+
+// Run statements in a transaction that is rolled back when one fails
+const inTransaction = async <T>(
+  connection: DatabaseConnection,
+  begin: string,
+  run: () => Promise<T>
+): Promise<T> => {
+  await connection.query(begin);
+  try {
+    const result = await run();
+    await connection.query('COMMIT');
+    return result;
+  } catch (e) {
+    await connection.query('ROLLBACK').catch(() => undefined);
+    throw e;
+  }
+};
+
+// Binary columns have no text form, so they are kept as base64
+const readValue = (value: any) =>
+  Buffer.isBuffer(value) ? value.toString('base64') : value;
+
+// Repeated column names (joins) get a suffix, like CSV headers
+const resultTable = (name: string, result: QueryResult) => {
+  const builder = createRowBuilder(true, null);
+  builder.build(result.columns);
+  const rows = result.rows.map(
+    (values) => builder.build(values.map(readValue))!
+  );
+  return createTable(name, rows);
+};
+
+const readTables = async (
+  connection: DatabaseConnection,
+  connector: DatabaseConnector,
+  options: DatabaseRequest
+): Promise<Dataset> => {
+  if (options.query) {
+    const query = String(options.query).trim();
+    if (!/^(SELECT|WITH)\b/i.test(query)) {
+      throw new ConversionError('The "query" option must be a SELECT.');
+    }
+    return { tables: [resultTable('query', await connection.query(query))] };
+  }
+
+  const names = parseListOption(options.table, 'table');
+  if (!names) {
+    throw new ConversionError('Either "table" or "query" is required.');
+  }
+  const dialect = getDialect(connector.dialect);
+  const tables = [];
+  for (const name of names) {
+    if (!(await connection.tableExists(name))) {
+      throw new ConversionError(`Table not found: ${name}.`);
+    }
+    const table = formatIdentifier(dialect, name);
+    tables.push(
+      resultTable(name, await connection.query(`SELECT * FROM ${table}`))
+    );
+  }
+  return { tables, multiTable: tables.length > 1 };
+};
+
+// Export a table (options.table), several tables or the result of a SELECT
+// (options.query) to options.to, along with a name for the file. Everything
+// is read in one read-only transaction, so tables are consistent with each
+// other.
+export const exportDatabase = async (
+  options: DatabaseRequest & { to: string }
+): Promise<ConvertedFile & { fileName: string }> => {
+  const names = parseListOption(options.table, 'table');
+  const fileName = options.query
+    ? 'query'
+    : names?.length === 1
+    ? names[0]
+    : options.connection || 'database';
+
+  const result = await convertDataset(
+    () =>
+      withConnection(options, (connection, connector) =>
+        inTransaction(connection, connector.beginReadOnly, () =>
+          readTables(connection, connector, options)
+        )
+      ),
+    { ...options, fileName }
+  );
+  return { ...result, fileName };
+};
+
+// Parameters are sent as text, numbers or dates the driver understands
+const parameterValue = (info: ColumnInfo, value: any) => {
+  const coerced = coerceValue(info, value);
+  if (coerced === undefined) return null;
+  if (typeof coerced === 'bigint') return coerced.toString();
+  if (typeof coerced === 'object' && coerced !== null) {
+    return coerced instanceof Date ? coerced : JSON.stringify(coerced);
+  }
+  return coerced;
+};
+
+// Multi-row INSERTs of up to batchSize rows, fewer for wide tables so a
+// statement stays within the parameter limit
+const insertRows = async (
+  connection: DatabaseConnection,
+  connector: DatabaseConnector,
+  table: string,
+  infos: ColumnInfo[],
+  rows: Row[],
+  options: ConvertOptions & { batchSize: number }
+) => {
+  if (!infos.length) return;
+  const dialect = getDialect(connector.dialect);
+  const columns = infos
+    .map((info) => formatIdentifier(dialect, info.name, options.quote))
+    .join(', ');
+  const size = Math.max(
+    Math.min(options.batchSize, Math.floor(MAX_PARAMETERS / infos.length)),
+    1
+  );
+
+  for (let start = 0; start < rows.length; start += size) {
+    const params: any[] = [];
+    const values = rows.slice(start, start + size).map((row) => {
+      const placeholders = infos.map((info) => {
+        params.push(parameterValue(info, row[info.name]));
+        return connector.placeholder(params.length);
+      });
+      return `(${placeholders.join(', ')})`;
+    });
+    await connection.query(
+      `INSERT INTO ${table} (${columns}) VALUES ${values.join(', ')}`,
+      params
+    );
+  }
+};
+
+// Bulk-load an uploaded file in one transaction. Each table of the file goes
+// into the table of the same name, or the ones options.table lists in order.
+// Missing tables are created like the CREATE TABLE of SQL output, existing
+// ones are appended to, emptied first (ifExists=replace) or left alone with
+// an error (ifExists=fail).
+export const importIntoDatabase = async (
+  input: Buffer,
+  options: DatabaseRequest &
+    ConvertOptions & { from?: string; originalName?: string }
+): Promise<ImportedTable[]> => {
+  const from = options.from || detectFormat(input, options.originalName);
+  const format = getFormat(from);
+  if (!format?.read) {
+    throw new ConversionError(`Unsupported input format: ${from}`);
+  }
+  const ifExists = String(options.ifExists || 'append').toLowerCase();
+  if (!IF_EXISTS_MODES.includes(ifExists)) {
+    throw new ConversionError(
+      `Unsupported ifExists option: ${
+        options.ifExists
+      }. Expected one of ${IF_EXISTS_MODES.join(', ')}.`
+    );
+  }
+  const batchSize =
+    parseIntegerOption(options.batchSize, 'batchSize', 1) ?? DEFAULT_BATCH_SIZE;
+
+  // Invalid rows fail the import or are left out, there is no report file
+  const { dataset } = await loadDataset(
+    () => readDataset(format, input, options),
+    { ...options, validationReport: undefined }
+  );
+  const names =
+    parseListOption(options.table, 'table') ||
+    dataset.tables.map((table) => table.name);
+  if (names.length !== dataset.tables.length) {
+    throw new ConversionError(
+      `The file has ${dataset.tables.length} tables, expected as many names in "table".`
+    );
+  }
+
+  return withConnection(options, async (connection, connector) => {
+    const dialect = getDialect(connector.dialect);
+    const builder = createSqlBuilder({ ...options, dialect: dialect.name });
+    const targets: ImportTarget[] = [];
+    for (const [i, table] of dataset.tables.entries()) {
+      const name = names[i];
+      const exists = await connection.tableExists(name);
+      if (exists && ifExists === 'fail') {
+        throw new ConversionError(`Table already exists: ${name}.`, 409);
+      }
+      targets.push({
+        name,
+        table,
+        exists,
+        identifier: formatIdentifier(dialect, name, options.quote),
+        infos: inferColumns(table),
+      });
+    }
+
+    // CREATE TABLE commits the open transaction on MySQL, so missing tables
+    // are created before it starts and dropped again when the import fails
+    const created: string[] = [];
+    try {
+      for (const { name, exists, identifier, infos } of targets) {
+        if (exists) continue;
+        await connection.query(
+          builder.createTable(name, infos).trim().replace(/;$/, '')
+        );
+        created.push(identifier);
+      }
+
+      return await inTransaction(connection, 'BEGIN', async () => {
+        const imported: ImportedTable[] = [];
+        for (const { name, table, exists, identifier, infos } of targets) {
+          if (exists && ifExists === 'replace') {
+            await connection.query(`DELETE FROM ${identifier}`);
+          }
+          const rows = flatRows(table);
+          await insertRows(connection, connector, identifier, infos, rows, {
+            ...options,
+            batchSize,
+          });
+          imported.push({ name, rows: rows.length, created: !exists });
+        }
+        return imported;
+      });
+    } catch (e) {
+      for (const identifier of created.reverse()) {
+        await connection
+          .query(`DROP TABLE ${identifier}`)
+          .catch(() => undefined);
+      }
+      throw e;
+    }
+  });
+};
@@ -0,0 +1,13 @@
+// Error caused by the request (bad upload, unknown format), sent back as a 4xx
+export class ConversionError extends Error {
+  status: number;
+  // Extra information sent along with the message, e.g. a validation report
+  details?: any;
+
+  constructor(message: string, status = 400, details?: any) {
+    super(message);
+    this.name = 'ConversionError';
+    this.status = status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,72 @@
+import { compileCondition, compileExpression } from './expression';
+
+describe('compileExpression', () => {
+  const row = {
+    price: '2.5',
+    quantity: 4,
+    'First Name': ' ada ',
+    last: 'Lovelace',
+    empty: '',
+  };
+
+  it('should evaluate arithmetic with precedence', () => {
+    expect(compileExpression('price * quantity + 1')(row)).toBe(11);
+    expect(compileExpression('price * (quantity + 1)')(row)).toBe(12.5);
+    expect(compileExpression('-quantity % 3')(row)).toBe(-1);
+  });
+
+  it('should join text and call functions', () => {
+    expect(
+      compileExpression(`upper(trim("First Name")) || ' ' || last`)(row)
+    ).toBe('ADA Lovelace');
+    expect(compileExpression(`coalesce(empty, missing, 'none')`)(row)).toBe(
+      'none'
+    );
+    expect(compileExpression('round(price / 3, 2)')(row)).toBe(0.83);
+  });
+
+  it('should propagate empty values through arithmetic', () => {
+    expect(compileExpression('empty * 2')(row)).toBeNull();
+    expect(compileExpression('quantity / 0')(row)).toBeNull();
+  });
+
+  it('should evaluate conditions with SQL semantics', () => {
+    const matches = (condition: string) => compileCondition(condition)(row);
+
+    expect(matches(`price >= 2.5 AND last = 'Lovelace'`)).toBe(true);
+    expect(matches(`quantity IN (1, 2) OR NOT last LIKE 'Love%'`)).toBe(false);
+    expect(matches(`last ILIKE 'l_velace' AND empty IS NULL`)).toBe(true);
+    expect(matches('missing IS NOT NULL')).toBe(false);
+    // Comparing with an empty value is unknown, so neither holds
+    expect(matches('empty = 1')).toBe(false);
+    expect(matches('NOT empty = 1')).toBe(false);
+    expect(matches(`'2024-01-10' < '2024-02-01'`)).toBe(true);
+    // Text without an offset is UTC, whatever the server's time zone
+    expect(
+      compileCondition(`d >= '2024-01-01 12:00'`)({
+        d: new Date('2024-01-01T14:00:00Z'),
+      })
+    ).toBe(true);
+  });
+
+  it('should reject invalid expressions and values', () => {
+    expect(() => compileExpression('price *')).toThrow(
+      'Invalid expression "price *": unexpected end.'
+    );
+    expect(() => compileExpression('nope(price)')).toThrow(
+      'unknown function nope'
+    );
+    expect(() => compileExpression('last * 2')(row)).toThrow(
+      'Cannot apply "*" to "Lovelace".'
+    );
+  });
+
+  it('should not read columns or functions from the prototype', () => {
+    expect(compileExpression('constructor')(row)).toBeNull();
+    expect(compileExpression('"__proto__"')(row)).toBeNull();
+    expect(compileExpression('coalesce(toString, 1)')(row)).toBe(1);
+    expect(() => compileExpression('constructor(price)')).toThrow(
+      'unknown function constructor'
+    );
+  });
+});
@@ -0,0 +1,433 @@
+import { ConversionError } from './errors';
+import { inferValueType, isEmpty, parseDate, valueText } from './infer';
+import { Row } from './types';
+
+// A compiled expression, evaluated against one flattened row
+export type Evaluator = (row: Row) => any;
+
+type TokenType =
+  | 'number'
+  | 'string'
+  | 'identifier'
+  | 'column'
+  | 'operator'
+  | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+}
+
+// Longest first, so <= is not read as <
+const OPERATORS = [
+  '||',
+  '<=',
+  '>=',
+  '<>',
+  '!=',
+  '=',
+  '<',
+  '>',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '(',
+  ')',
+  ',',
+];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Text between quotes, a doubled quote standing for the quote itself
+  const quoted = (quote: string) => {
+    let text = '';
+    for (i++; i < source.length; i++) {
+      if (source[i] !== quote) text += source[i];
+      else if (source[i + 1] === quote) text += source[i++];
+      else break;
+    }
+    if (i++ >= source.length) throw new Error(`unclosed ${quote}`);
+    return text;
+  };
+
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(rest);
+    const identifier = /^[A-Za-z_][\w.]*/.exec(rest);
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+
+    if (/\s/.test(source[i])) {
+      i++;
+    } else if (number) {
+      tokens.push({ type: 'number', value: number[0] });
+      i += number[0].length;
+    } else if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0] });
+      i += identifier[0].length;
+    } else if (source[i] === "'") {
+      tokens.push({ type: 'string', value: quoted("'") });
+    } else if (source[i] === '"') {
+      // "First Name" refers to a column whose name is not a bare word
+      tokens.push({ type: 'column', value: quoted('"') });
+    } else if (operator) {
+      tokens.push({ type: 'operator', value: operator });
+      i += operator.length;
+    } else {
+      throw new Error(`unexpected "${source[i]}"`);
+    }
+  }
+
+  tokens.push({ type: 'end', value: '' });
+  return tokens;
+};
+
+const isNumeric = (value: any) => {
+  const type = inferValueType(value);
+  return type === 'integer' || type === 'decimal';
+};
+
+const toNumber = (value: any, operator: string) => {
+  if (!isNumeric(value)) {
+    throw new ConversionError(
+      `Cannot apply "${operator}" to ${JSON.stringify(value)}.`
+    );
+  }
+  return Number(value);
+};
+
+// Milliseconds of a date or date-like text, undefined for anything else.
+// Text without an offset is UTC, as everywhere else.
+const timeOf = (value: any) => {
+  if (value instanceof Date) return value.getTime();
+  const type = inferValueType(value);
+  return type === 'date' || type === 'timestamp'
+    ? parseDate(String(value)).getTime()
+    : undefined;
+};
+
+// Order of two values: as numbers when both are numeric, as dates when
+// both are dates, and as text otherwise. Empty values sort last.
+export const compareValues = (a: any, b: any): number => {
+  if (isEmpty(a) || isEmpty(b)) {
+    return Number(isEmpty(a)) - Number(isEmpty(b));
+  }
+  if (isNumeric(a) && isNumeric(b)) return Number(a) - Number(b);
+  const timeA = timeOf(a);
+  const timeB = timeOf(b);
+  if (timeA !== undefined && timeB !== undefined) return timeA - timeB;
+  const textA = valueText(a);
+  const textB = valueText(b);
+  return textA < textB ? -1 : textA > textB ? 1 : 0;
+};
+
+// Comparisons with an empty value are unknown (null), as in SQL
+const comparison =
+  (test: (order: number) => boolean) =>
+  (a: any, b: any): boolean | null =>
+    isEmpty(a) || isEmpty(b) ? null : test(compareValues(a, b));
+
+// Empty values propagate through arithmetic, as NULL does in SQL
+const arithmetic =
+  (operator: string, apply: (a: number, b: number) => number | null) =>
+  (a: any, b: any) =>
+    isEmpty(a) || isEmpty(b)
+      ? null
+      : apply(toNumber(a, operator), toNumber(b, operator));
+
+const BINARY: { [operator: string]: (a: any, b: any) => any } = {
+  // + adds numbers and joins anything else
+  '+': (a, b) => {
+    if (isEmpty(a) || isEmpty(b)) return null;
+    return isNumeric(a) && isNumeric(b)
+      ? Number(a) + Number(b)
+      : valueText(a) + valueText(b);
+  },
+  '-': arithmetic('-', (a, b) => a - b),
+  '*': arithmetic('*', (a, b) => a * b),
+  '/': arithmetic('/', (a, b) => (b === 0 ? null : a / b)),
+  '%': arithmetic('%', (a, b) => a % b),
+  '||': (a, b) =>
+    (isEmpty(a) ? '' : valueText(a)) + (isEmpty(b) ? '' : valueText(b)),
+  '=': comparison((order) => order === 0),
+  '!=': comparison((order) => order !== 0),
+  '<>': comparison((order) => order !== 0),
+  '<': comparison((order) => order < 0),
+  '<=': comparison((order) => order <= 0),
+  '>': comparison((order) => order > 0),
+  '>=': comparison((order) => order >= 0),
+};
+
+// A condition as true, false or null (unknown)
+const truth = (value: any): boolean | null => {
+  if (isEmpty(value)) return null;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  const text = String(value).trim().toLowerCase();
+  if (text === 'true' || text === 'false') return text === 'true';
+  throw new ConversionError(
+    `Expected a condition, got ${JSON.stringify(value)}.`
+  );
+};
+
+// LIKE pattern: % matches any text, _ any one character
+const likePattern = (pattern: string, flags: string) =>
+  new RegExp(
+    `^${pattern
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/%/g, '.*')
+      .replace(/_/g, '.')}$`,
+    flags
+  );
+
+const text = (value: any) => (isEmpty(value) ? null : valueText(value));
+
+const FUNCTIONS: { [name: string]: (...args: any[]) => any } = {
+  upper: (value) => text(value)?.toUpperCase() ?? null,
+  lower: (value) => text(value)?.toLowerCase() ?? null,
+  trim: (value) => text(value)?.trim() ?? null,
+  length: (value) => text(value)?.length ?? null,
+  concat: (...values) => values.map((value) => text(value) ?? '').join(''),
+  coalesce: (...values) => values.find((value) => !isEmpty(value)) ?? null,
+  // 1-based like SQL SUBSTR
+  substr: (value, start, length) =>
+    text(value)?.substr(Number(start) - 1, length ?? undefined) ?? null,
+  replace: (value, search, replacement) =>
+    text(value)?.split(valueText(search)).join(valueText(replacement)) ?? null,
+  round: (value, digits = 0) => {
+    if (isEmpty(value)) return null;
+    const factor = Math.pow(10, Number(digits));
+    return Math.round(toNumber(value, 'round') * factor) / factor;
+  },
+  abs: (value) => (isEmpty(value) ? null : Math.abs(toNumber(value, 'abs'))),
+  floor: (value) =>
+    isEmpty(value) ? null : Math.floor(toNumber(value, 'floor')),
+  ceil: (value) => (isEmpty(value) ? null : Math.ceil(toNumber(value, 'ceil'))),
+};
+
+const KEYWORDS: { [word: string]: any } = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+// Own properties only, so names like constructor are not read from the
+// prototype
+const hasOwn = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const columnValue = (row: Row, name: string) =>
+  hasOwn(row, name) ? row[name] ?? null : null;
+
+// Compile an expression such as `price * quantity`,
+// `upper(trim("Last Name"))` or `status = 'active' AND age >= 18`.
+// Bare words and "double quoted" names are columns, 'single quoted' text is
+// a string.
+export const compileExpression = (source: string): Evaluator => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch (e: any) {
+    throw new ConversionError(`Invalid expression "${source}": ${e.message}.`);
+  }
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const fail = (): never => {
+    const token = peek();
+    throw new ConversionError(
+      `Invalid expression "${source}": ${
+        token.type === 'end' ? 'unexpected end' : `unexpected "${token.value}"`
+      }.`
+    );
+  };
+  const accept = (value: string) => {
+    const token = peek();
+    if (token.type !== 'operator' || token.value !== value) return false;
+    pos++;
+    return true;
+  };
+  const expect = (value: string) => {
+    if (!accept(value)) fail();
+  };
+  // Keywords such as AND or IS NULL, in any case
+  const isWord = (word: string, offset = 0) => {
+    const token = tokens[pos + offset];
+    return token.type === 'identifier' && token.value.toUpperCase() === word;
+  };
+  const acceptWord = (word: string) => {
+    if (!isWord(word)) return false;
+    pos++;
+    return true;
+  };
+
+  // Left-associative chain of the given operators over next()
+  const binary =
+    (operators: string[], next: () => Evaluator) => (): Evaluator => {
+      let left = next();
+      for (;;) {
+        const operator = operators.find(accept);
+        if (!operator) return left;
+        const right = next();
+        const apply = BINARY[operator];
+        const l = left;
+        left = (row) => apply(l(row), right(row));
+      }
+    };
+
+  const primary = (): Evaluator => {
+    const token = peek();
+    if (token.type === 'number') {
+      pos++;
+      const value = Number(token.value);
+      return () => value;
+    }
+    if (token.type === 'string') {
+      pos++;
+      return () => token.value;
+    }
+    if (accept('(')) {
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+    if (accept('-')) {
+      const operand = primary();
+      return (row) => {
+        const value = operand(row);
+        return isEmpty(value) ? null : -toNumber(value, '-');
+      };
+    }
+    if (token.type === 'column') {
+      pos++;
+      return (row) => columnValue(row, token.value);
+    }
+    if (token.type !== 'identifier') return fail();
+    pos++;
+
+    const name = token.value;
+    if (accept('(')) {
+      const fn = hasOwn(FUNCTIONS, name.toLowerCase())
+        ? FUNCTIONS[name.toLowerCase()]
+        : undefined;
+      if (!fn) {
+        throw new ConversionError(
+          `Invalid expression "${source}": unknown function ${name}.`
+        );
+      }
+      const args: Evaluator[] = [];
+      if (!accept(')')) {
+        do args.push(expression());
+        while (accept(','));
+        expect(')');
+      }
+      return (row) => fn(...args.map((arg) => arg(row)));
+    }
+    if (hasOwn(KEYWORDS, name.toLowerCase())) {
+      const value = KEYWORDS[name.toLowerCase()];
+      return () => value;
+    }
+    return (row) => columnValue(row, name);
+  };
+
+  const multiplicative = binary(['*', '/', '%'], primary);
+  const additive = binary(['+', '-', '||'], multiplicative);
+
+  // a = b, a IS [NOT] NULL, a [NOT] IN (b, c), a [NOT] LIKE 'b%'
+  const compare = (): Evaluator => {
+    const left = additive();
+    const operator = ['=', '!=', '<>', '<=', '>=', '<', '>'].find(accept);
+    if (operator) {
+      const right = additive();
+      const apply = BINARY[operator];
+      return (row) => apply(left(row), right(row));
+    }
+
+    if (acceptWord('IS')) {
+      const negate = acceptWord('NOT');
+      if (!acceptWord('NULL')) fail();
+      return (row) => isEmpty(left(row)) !== negate;
+    }
+
+    const negate =
+      isWord('NOT') && ['IN', 'LIKE', 'ILIKE'].some((w) => isWord(w, 1))
+        ? acceptWord('NOT')
+        : false;
+    const not = (value: boolean | null) =>
+      value === null ? null : value !== negate;
+
+    if (acceptWord('IN')) {
+      expect('(');
+      const list: Evaluator[] = [];
+      do list.push(expression());
+      while (accept(','));
+      expect(')');
+      return (row) => {
+        const value = left(row);
+        if (isEmpty(value)) return null;
+        return not(list.some((item) => BINARY['='](value, item(row))));
+      };
+    }
+
+    const like = ['LIKE', 'ILIKE'].find(acceptWord);
+    if (like) {
+      const pattern = additive();
+      const flags = like === 'ILIKE' ? 'i' : '';
+      let cached: [string, RegExp] | undefined;
+      return (row) => {
+        const value = left(row);
+        const source = pattern(row);
+        if (isEmpty(value) || isEmpty(source)) return null;
+        if (cached?.[0] !== valueText(source)) {
+          cached = [valueText(source), likePattern(valueText(source), flags)];
+        }
+        return not(cached[1].test(valueText(value)));
+      };
+    }
+    return left;
+  };
+
+  const negation = (): Evaluator => {
+    if (!acceptWord('NOT')) return compare();
+    const operand = negation();
+    return (row) => {
+      const value = truth(operand(row));
+      return value === null ? null : !value;
+    };
+  };
+
+  // Three-valued AND/OR: unknown only when the known operands don't decide
+  const logical =
+    (word: string, decisive: boolean, next: () => Evaluator) =>
+    (): Evaluator => {
+      let left = next();
+      while (acceptWord(word)) {
+        const right = next();
+        const l = left;
+        left = (row) => {
+          const a = truth(l(row));
+          if (a === decisive) return a;
+          const b = truth(right(row));
+          if (b === decisive) return b;
+          return a === null || b === null ? null : !decisive;
+        };
+      }
+      return left;
+    };
+
+  const conjunction = logical('AND', false, negation);
+  const expression: () => Evaluator = logical('OR', true, conjunction);
+
+  const evaluator = expression();
+  if (peek().type !== 'end') fail();
+  return evaluator;
+};
+
+// A filter condition, true only for rows where it holds (not unknown)
+export const compileCondition = (source: string) => {
+  const evaluate = compileExpression(source);
+  return (row: Row) => truth(evaluate(row)) === true;
+};
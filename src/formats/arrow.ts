@@ -0,0 +1,196 @@
+import AdmZip from 'adm-zip';
+import {
+  Bool,
+  DataType,
+  DateDay,
+  Float64,
+  Int32,
+  Int64,
+  Table as ArrowTable,
+  tableFromIPC,
+  tableToIPC,
+  TimestampMillisecond,
+  Utf8,
+  Vector,
+  vectorFromArray,
+} from 'apache-arrow';
+import {
+  coerceValue,
+  ColumnInfo,
+  inferColumns,
+  parseDate,
+  valueText,
+} from '../infer';
+import { registerFormat } from '../registry';
+import { createTable, flatRows } from '../table';
+import {
+  ConvertOptions,
+  FormatReader,
+  FormatWriter,
+  Row,
+  Table,
+} from '../types';
+import { decimalValue } from './extended-json';
+
+const ARROW_CONTENT_TYPE = 'application/vnd.apache.arrow.file';
+const ARROW_FILE_MAGIC = 'ARROW1';
+// Digits of the largest 64 bit integer, longer integers are kept as text
+const INT64_DIGITS = 18;
+
+// IPC files start with ARROW1, streams with a 0xFFFFFFFF continuation marker
+export const isArrow = (input: Buffer) =>
+  input.subarray(0, ARROW_FILE_MAGIC.length).toString('latin1') ===
+    ARROW_FILE_MAGIC ||
+  (input.length >= 8 && input.readUInt32LE(0) === 0xffffffff);
+
+// The Arrow type a column is written as, following the inferred type
+const arrowType = (info: ColumnInfo): DataType => {
+  switch (info.type) {
+    case 'integer':
+      if (info.integerDigits > INT64_DIGITS) return new Utf8();
+      return info.big ? new Int64() : new Int32();
+    case 'decimal':
+      return new Float64();
+    case 'boolean':
+      return new Bool();
+    case 'date':
+      return new DateDay();
+    case 'timestamp':
+      return new TimestampMillisecond('UTC');
+    default:
+      return new Utf8();
+  }
+};
+
+const arrowValue = (info: ColumnInfo, type: DataType, value: any) => {
+  if (value === null || value === undefined) return null;
+  const typed = coerceValue(info, value);
+  if (typed === null) return null;
+  if (DataType.isDate(type) || DataType.isTimestamp(type)) {
+    return typed instanceof Date ? typed : parseDate(String(typed));
+  }
+  if (type instanceof Int64) return BigInt(typed);
+  if (DataType.isUtf8(type)) {
+    return typeof typed === 'object' && !(typed instanceof Date)
+      ? JSON.stringify(typed)
+      : valueText(typed);
+  }
+  return typed;
+};
+
+// Columns are typed from the data: integers, doubles, booleans, dates and
+// UTC timestamps, text for anything else
+export const toArrowTable = (table: Table): ArrowTable => {
+  const rows = flatRows(table);
+  const vectors: { [name: string]: any } = {};
+  inferColumns(table).forEach((info) => {
+    const type = arrowType(info);
+    vectors[info.name] = vectorFromArray(
+      rows.map((row) => arrowValue(info, type, row[info.name])),
+      type
+    );
+  });
+  return new ArrowTable(vectors);
+};
+
+// Decimals are stored unscaled, e.g. 12345 with scale 2 for 123.45
+const decimalText = (unscaled: string, scale: number) => {
+  if (!scale) return unscaled;
+  const sign = unscaled.startsWith('-') ? '-' : '';
+  const digits = unscaled.replace(/^-/, '').padStart(scale + 1, '0');
+  return `${sign}${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+};
+
+// Plain values for nested lists and structs: longs as numbers (or text
+// beyond the safe range) and binary data as base64
+const plainValue = (value: any): any => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value))
+      ? Number(value)
+      : value.toString();
+  }
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+  if (typeof value !== 'object' || value instanceof Date) return value;
+  if (value instanceof Vector) return Array.from(value).map(plainValue);
+  const json = typeof value.toJSON === 'function' ? value.toJSON() : value;
+  const result: Row = {};
+  Object.keys(json).forEach((key) => {
+    result[key] = plainValue(json[key]);
+  });
+  return result;
+};
+
+const readValue = (type: DataType, value: any) => {
+  if (value === null || value === undefined) return null;
+  if (DataType.isDate(type) || DataType.isTimestamp(type)) {
+    return new Date(Number(value));
+  }
+  if (DataType.isDecimal(type)) {
+    return decimalValue(decimalText(String(value), type.scale));
+  }
+  return plainValue(value);
+};
+
+// Dates and timestamps read as dates, nested structs as dot path columns
+export const fromArrowTable = (name: string, arrow: ArrowTable): Table => {
+  const fields = arrow.schema.fields;
+  const rows: Row[] = [];
+  for (let i = 0; i < arrow.numRows; i++) rows.push({});
+
+  fields.forEach((field) => {
+    const vector = arrow.getChild(field.name);
+    rows.forEach((row, i) => {
+      row[field.name] = readValue(field.type, vector?.get(i));
+    });
+  });
+  return createTable(name, rows);
+};
+
+// IPC files and streams alike
+export const readArrow: FormatReader = (input, options) => ({
+  tables: [fromArrowTable(options.fileName, tableFromIPC(input))],
+});
+
+// Write each table with the given function, zipping the files of
+// multi-table sources as `${fileName}-${table}.${extension}`
+export const writeTableFiles = (
+  tables: Table[],
+  options: ConvertOptions,
+  extension: string,
+  writeTable: (table: Table) => Uint8Array
+) => {
+  const zip = new AdmZip(undefined, { noSort: true });
+  tables.forEach((table) => {
+    zip.addFile(
+      `${options.fileName}-${table.name}.${extension}`,
+      Buffer.from(writeTable(table))
+    );
+  });
+  return zip.toBuffer();
+};
+
+// An Arrow IPC file, or a zip of one file per table for multi-table sources
+export const writeArrow: FormatWriter = (dataset, options) => {
+  const writeTable = (table: Table) => tableToIPC(toArrowTable(table), 'file');
+  if (dataset.tables.length === 1 && !dataset.multiTable) {
+    return {
+      data: Buffer.from(writeTable(dataset.tables[0])),
+      extension: 'arrow',
+      contentType: ARROW_CONTENT_TYPE,
+    };
+  }
+
+  return {
+    data: writeTableFiles(dataset.tables, options, 'arrow', writeTable),
+    extension: 'zip',
+    contentType: 'application/zip',
+  };
+};
+
+registerFormat({
+  name: 'arrow',
+  aliases: ['ipc', 'feather', 'arrows'],
+  read: readArrow,
+  write: writeArrow,
+});
@@ -0,0 +1,221 @@
+import { Options as CsvParseOptions } from 'csv-parse';
+import { ConversionError } from '../errors';
+import { parseIntegerOption } from '../options';
+import { ConvertOptions } from '../types';
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1';
+
+// How a CSV file is laid out, from the request options or detected from
+// the start of the file
+export interface CsvDialect {
+  encoding: CsvEncoding;
+  delimiter: string;
+  // false when fields are never quoted
+  quote: string | false;
+  escape: string;
+  header: boolean;
+  // Lines before the header (or first row), e.g. report titles
+  skipRows: number;
+  // Lines starting with this character are ignored
+  comment?: string;
+}
+
+// Bytes looked at to detect the encoding and delimiter
+export const CSV_SAMPLE_SIZE = 64 * 1024;
+
+const SNIFF_LINES = 20;
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+const DELIMITER_NAMES: { [name: string]: string } = {
+  comma: ',',
+  semicolon: ';',
+  tab: '\t',
+  '\\t': '\t',
+  pipe: '|',
+};
+
+const ENCODINGS: { [name: string]: CsvEncoding } = {
+  utf8: 'utf-8',
+  'utf-8': 'utf-8',
+  utf16: 'utf-16le',
+  'utf-16': 'utf-16le',
+  utf16le: 'utf-16le',
+  'utf-16le': 'utf-16le',
+  ucs2: 'utf-16le',
+  utf16be: 'utf-16be',
+  'utf-16be': 'utf-16be',
+  latin1: 'latin1',
+  'iso-8859-1': 'latin1',
+  'windows-1252': 'latin1',
+  cp1252: 'latin1',
+};
+
+const isAuto = (value: any) =>
+  value === undefined || value === '' || String(value) === 'auto';
+
+// Share of the even (or odd) bytes that are zero, UTF-16 text without a BOM
+// has one zero byte in every pair for ASCII characters
+const zeroByteShare = (sample: Buffer, offset: number) => {
+  let zeros = 0;
+  let pairs = 0;
+  for (let i = offset; i < Math.min(sample.length, 1000); i += 2) {
+    pairs++;
+    if (sample[i] === 0) zeros++;
+  }
+  return pairs ? zeros / pairs : 0;
+};
+
+// BOM first, then UTF-16 zero byte patterns, then UTF-8 if the bytes are
+// valid UTF-8 and Latin-1 otherwise
+export const detectEncoding = (
+  sample: Buffer,
+  requested?: string
+): CsvEncoding => {
+  if (!isAuto(requested)) {
+    const encoding = ENCODINGS[String(requested).toLowerCase()];
+    if (!encoding) {
+      throw new ConversionError(
+        `Unsupported CSV encoding: ${requested}. Expected one of utf-8, utf-16le, utf-16be, latin1.`
+      );
+    }
+    return encoding;
+  }
+
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+  if (sample[0] === 0xfe && sample[1] === 0xff) return 'utf-16be';
+
+  const evenZeros = zeroByteShare(sample, 0);
+  const oddZeros = zeroByteShare(sample, 1);
+  if (oddZeros > 0.3 && evenZeros < 0.05) return 'utf-16le';
+  if (evenZeros > 0.3 && oddZeros < 0.05) return 'utf-16be';
+
+  try {
+    // stream: true tolerates a character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch (e) {
+    return 'latin1';
+  }
+};
+
+// Lines of the sample split outside quoted fields, so quoted line breaks
+// and delimiters are not counted
+const sampleLines = (text: string, quote: string | false) => {
+  const lines: string[] = [];
+  let line = '';
+  let quoted = false;
+  for (const char of text) {
+    if (quote && char === quote) quoted = !quoted;
+    if (!quoted && (char === '\n' || char === '\r')) {
+      if (line) lines.push(line);
+      line = '';
+    } else {
+      line += quoted && char !== quote ? '' : char;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Pick the candidate delimiter found the same number of times on the most
+// lines, preferring the one found more often on the first line
+export const sniffDelimiter = (
+  text: string,
+  quote: string | false = '"',
+  comment?: string,
+  skipRows = 0
+) => {
+  let lines = sampleLines(text, quote)
+    .slice(skipRows)
+    .filter((line) => !comment || !line.startsWith(comment));
+  // The last line of the sample may have been cut off
+  if (lines.length > 1) lines = lines.slice(0, -1);
+  lines = lines.slice(0, SNIFF_LINES);
+
+  let best = { delimiter: ',', lines: 0, count: 0 };
+  DELIMITERS.forEach((delimiter) => {
+    const counts = lines.map((line) => line.split(delimiter).length - 1);
+    if (!counts[0]) return;
+
+    const matching = counts.filter((count) => count === counts[0]).length;
+    if (
+      matching > best.lines ||
+      (matching === best.lines && counts[0] > best.count)
+    ) {
+      best = { delimiter, lines: matching, count: counts[0] };
+    }
+  });
+  return best.delimiter;
+};
+
+const singleCharacter = (value: any, name: string) => {
+  const text = String(value);
+  if (text.length !== 1) {
+    throw new ConversionError(`The "${name}" option must be one character.`);
+  }
+  return text;
+};
+
+// Resolve the CSV options of a request, detecting the encoding and the
+// delimiter from the start of the input unless they are given
+export const resolveCsvDialect = (
+  input: Buffer,
+  options: ConvertOptions
+): CsvDialect => {
+  const sample = input.subarray(0, CSV_SAMPLE_SIZE);
+  const encoding = detectEncoding(sample, options.encoding);
+
+  // "quote" is taken by the SQL writer's identifier quoting
+  let quote: string | false = '"';
+  if (options.quoteChar === 'none') {
+    quote = false;
+  } else if (!isAuto(options.quoteChar)) {
+    quote = singleCharacter(options.quoteChar, 'quoteChar');
+  }
+
+  const skipRows = parseIntegerOption(options.skipRows, 'skipRows') || 0;
+
+  const comment = options.comment ? String(options.comment) : undefined;
+
+  let delimiter: string;
+  if (isAuto(options.delimiter)) {
+    const text = new TextDecoder(encoding).decode(sample);
+    delimiter = sniffDelimiter(text, quote, comment, skipRows);
+  } else {
+    delimiter =
+      DELIMITER_NAMES[String(options.delimiter).toLowerCase()] ||
+      String(options.delimiter);
+  }
+
+  return {
+    encoding,
+    delimiter,
+    quote,
+    escape: options.escapeChar
+      ? singleCharacter(options.escapeChar, 'escapeChar')
+      : quote || '"',
+    header: String(options.header) !== 'false',
+    skipRows,
+    comment,
+  };
+};
+
+export const decodeCsv = (input: Buffer, dialect: CsvDialect) =>
+  new TextDecoder(dialect.encoding).decode(input);
+
+// csv-parse options shared by the in-memory and streaming readers. Records
+// come back as arrays, createRowBuilder (table.ts) turns them into rows.
+export const csvParseOptions = (dialect: CsvDialect): CsvParseOptions => ({
+  delimiter: dialect.delimiter,
+  quote: dialect.quote,
+  escape: dialect.quote ? dialect.escape : null,
+  from_line: dialect.skipRows + 1,
+  comment: dialect.comment,
+  comment_no_infix: true,
+  skip_empty_lines: true,
+  relax_column_count: true,
+});
@@ -0,0 +1,199 @@
+import AdmZip from 'adm-zip';
+import xlsx from 'xlsx';
+import { pipeline, Readable } from 'stream';
+import { parse } from 'csv-parse/sync';
+import { parse as parseStream } from 'csv-parse';
+import { ConversionError } from '../errors';
+import { registerFormat } from '../registry';
+import { createBatchWriter, readBuffers, streamTables } from '../stream';
+import { valueText } from '../infer';
+import { createRowBuilder, flatRows, flattenRow, tableToSheet } from '../table';
+import {
+  csvParseOptions,
+  CSV_SAMPLE_SIZE,
+  decodeCsv,
+  resolveCsvDialect,
+} from './csv-dialect';
+import {
+  ConvertOptions,
+  FormatReader,
+  Row,
+  FormatWriter,
+  StreamReader,
+  StreamWriter,
+  Table,
+} from '../types';
+
+const readCsvTable = (
+  input: Buffer,
+  name: string,
+  options: ConvertOptions
+): Table => {
+  const dialect = resolveCsvDialect(input, options);
+  const builder = createRowBuilder(dialect.header, '');
+  const rows: Row[] = [];
+  parse(decodeCsv(input, dialect), csvParseOptions(dialect)).forEach(
+    (record: string[]) => {
+      const row = builder.build(record);
+      if (row) rows.push(row);
+    }
+  );
+
+  return { name, columns: builder.columns, rows };
+};
+
+// Zip files start with the local file header signature PK\x03\x04
+export const isZip = (input: Buffer) =>
+  input.length >= 4 && input.readUInt32LE(0) === 0x04034b50;
+
+// The zip written by writeCsv for multi-table sources names its files
+// `${fileName}-${table}.csv`; read each back as a table of that name
+const readCsvZip: FormatReader = (input, options) => {
+  const entries = new AdmZip(input, { noSort: true })
+    .getEntries()
+    .filter((entry) => !entry.isDirectory && /\.csv$/i.test(entry.name));
+  if (!entries.length) throw new ConversionError('No CSV files in the zip.');
+
+  const names = entries.map((entry) => entry.name.replace(/\.csv$/i, ''));
+  // The zip's own name carries the upload's extension (data.xlsx.zip)
+  const prefixes = [options.fileName, options.fileName.replace(/\.[^.]*$/, '')];
+  const prefix = prefixes.find((name) =>
+    names.every((entryName) => entryName.startsWith(`${name}-`))
+  );
+
+  const tables = entries.map((entry, i) => {
+    const name = prefix ? names[i].slice(prefix.length + 1) : names[i];
+    return readCsvTable(entry.getData(), name, options);
+  });
+  return { tables, multiTable: true };
+};
+
+export const readCsv: FormatReader = (input, options) => {
+  if (isZip(input)) return readCsvZip(input, options);
+  return { tables: [readCsvTable(input, options.fileName, options)] };
+};
+
+// Dates as ISO text like writeCsvStream, rather than as short Excel dates
+// that drop the time and anything before 1900. Numbers as text too, the
+// sheet would write 123456789012 as 1.23457E+11.
+const tableToCsv = (table: Table) => {
+  const rows = flatRows(table).map((row) => {
+    Object.keys(row).forEach((key) => {
+      if (row[key] instanceof Date || typeof row[key] === 'number') {
+        row[key] = valueText(row[key]);
+      }
+    });
+    return row;
+  });
+  return xlsx.utils.sheet_to_csv(tableToSheet({ ...table, rows }));
+};
+
+// One CSV file, or a zip of one CSV file per table for multi-table sources
+export const writeCsv: FormatWriter = (dataset, options) => {
+  if (dataset.tables.length === 1 && !dataset.multiTable) {
+    return {
+      data: tableToCsv(dataset.tables[0]),
+      extension: 'csv',
+      contentType: 'text/csv',
+    };
+  }
+
+  // Keep the files in table (sheet) order, adm-zip sorts by name otherwise
+  const zip = new AdmZip(undefined, { noSort: true });
+  dataset.tables.forEach((table) => {
+    const csvData = tableToCsv(table);
+    zip.addFile(`${options.fileName}-${table.name}.csv`, Buffer.from(csvData));
+  });
+
+  return {
+    data: zip.toBuffer(),
+    extension: 'zip',
+    contentType: 'application/zip',
+  };
+};
+
+// Same parsing as readCsv, the dialect is resolved from the first chunks
+export const readCsvStream: StreamReader = (input, options) => ({
+  records: (async function* () {
+    const chunks = readBuffers(input);
+    const head: Buffer[] = [];
+    let headSize = 0;
+    let next = await chunks.next();
+    while (!next.done && headSize < CSV_SAMPLE_SIZE) {
+      head.push(next.value);
+      headSize += next.value.length;
+      next = await chunks.next();
+    }
+
+    const sample = Buffer.concat(head);
+    if (isZip(sample)) {
+      throw new ConversionError('Zipped CSV files cannot be streamed.');
+    }
+    const dialect = resolveCsvDialect(sample, options);
+    const decoder = new TextDecoder(dialect.encoding);
+    const text = async function* () {
+      yield decoder.decode(sample, { stream: true });
+      while (!next.done) {
+        yield decoder.decode(next.value, { stream: true });
+        next = await chunks.next();
+      }
+      yield decoder.decode();
+    };
+
+    const parser = pipeline(
+      Readable.from(text()),
+      parseStream(csvParseOptions(dialect)),
+      () => {} // errors surface while iterating the parser
+    );
+    const builder = createRowBuilder(dialect.header, '');
+    for await (const record of parser) {
+      const row = builder.build(record);
+      if (row) yield { table: options.fileName, row };
+    }
+  })(),
+});
+
+const toCsvField = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  let text: string;
+  if (value instanceof Date) text = value.toISOString();
+  else if (typeof value === 'boolean') text = value ? 'TRUE' : 'FALSE';
+  else if (typeof value === 'object') text = JSON.stringify(value);
+  else text = String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const writeCsvStream: StreamWriter = {
+  extension: 'csv',
+  contentType: 'text/csv',
+  write: async (source, output) => {
+    const writer = createBatchWriter(output);
+    let tableCount = 0;
+
+    for await (const table of streamTables(source)) {
+      if (tableCount++) {
+        throw new ConversionError(
+          'Streaming CSV output supports a single table.'
+        );
+      }
+
+      await writer.write(`${table.columns.map(toCsvField).join(',')}\n`);
+      for await (const row of table.rows) {
+        const flatRow = flattenRow(row);
+        table.checkColumns(flatRow);
+        const fields = table.columns.map((col) => toCsvField(flatRow[col]));
+        await writer.write(`${fields.join(',')}\n`);
+      }
+    }
+    await writer.flush();
+  },
+};
+
+registerFormat({
+  name: 'csv',
+  read: readCsv,
+  write: writeCsv,
+  readStream: readCsvStream,
+  writeStream: writeCsvStream,
+});
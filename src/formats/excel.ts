@@ -0,0 +1,165 @@
+import xlsx from 'xlsx';
+import { ConversionError } from '../errors';
+import { parseIntegerOption, parseListOption } from '../options';
+import { registerFormat } from '../registry';
+import { createRowBuilder, flatRows, tableToSheet } from '../table';
+import {
+  ConvertOptions,
+  Dataset,
+  FormatReader,
+  FormatWriter,
+  Row,
+  Table,
+} from '../types';
+
+export const EXCEL_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const A1_RANGE = /^[A-Z]+[0-9]+(:[A-Z]+[0-9]+)?$/i;
+
+// All sheets by default, or the requested ones by name or position (1 is
+// the first sheet). Hidden sheets are only skipped when not asked for.
+const selectSheets = (
+  workbook: xlsx.WorkBook,
+  options: ConvertOptions,
+  includeHidden: boolean
+) => {
+  const requested = parseListOption(options.sheets, 'sheets');
+  if (!requested) {
+    return workbook.SheetNames.filter(
+      (name, i) => includeHidden || !workbook.Workbook?.Sheets?.[i]?.Hidden
+    );
+  }
+
+  return requested.map((item) => {
+    if (workbook.SheetNames.includes(item)) return item;
+    const position = Number(item);
+    if (Number.isInteger(position) && workbook.SheetNames[position - 1]) {
+      return workbook.SheetNames[position - 1];
+    }
+    throw new ConversionError(`Sheet not found: ${item}.`);
+  });
+};
+
+// Rows of one sheet within options.range, starting at the header row
+// (options.headerRow, or the first row after options.skipRows) and leaving
+// out options.skipFooter rows at the end. Blank rows are dropped.
+const readSheet = (
+  worksheet: xlsx.WorkSheet,
+  name: string,
+  options: ConvertOptions,
+  includeHidden: boolean
+): Table => {
+  if (options.range && !A1_RANGE.test(String(options.range))) {
+    throw new ConversionError(
+      `Invalid range: ${options.range}. Expected an A1 range such as B2:F20.`
+    );
+  }
+  const ref = options.range ? String(options.range) : worksheet['!ref'];
+  // Empty cells are kept as null so every row lists the columns in order
+  const builder = createRowBuilder(String(options.header) !== 'false', null);
+  const rows: Row[] = [];
+  if (!ref) return { name, columns: builder.columns, rows };
+
+  const range = xlsx.utils.decode_range(ref);
+  const headerRow = parseIntegerOption(options.headerRow, 'headerRow', 1);
+  range.s.r = headerRow
+    ? headerRow - 1
+    : range.s.r + (parseIntegerOption(options.skipRows, 'skipRows') || 0);
+  range.e.r -= parseIntegerOption(options.skipFooter, 'skipFooter') || 0;
+  if (range.e.r < range.s.r) return { name, columns: builder.columns, rows };
+
+  const hiddenRows = includeHidden ? [] : worksheet['!rows'] || [];
+  const hiddenCols = includeHidden ? [] : worksheet['!cols'] || [];
+  const records = xlsx.utils.sheet_to_json<any[]>(worksheet, {
+    header: 1,
+    range,
+    blankrows: true,
+  });
+
+  records.forEach((record, i) => {
+    if (hiddenRows[range.s.r + i]?.hidden) return;
+    // Array.from turns the holes left by empty cells into undefined
+    const cells = Array.from(record).filter(
+      (cell, c) => !hiddenCols[range.s.c + c]?.hidden
+    );
+    if (cells.every((cell) => cell === undefined || cell === '')) return;
+
+    const row = builder.build(cells);
+    if (row) rows.push(row);
+  });
+
+  return { name, columns: builder.columns, rows };
+};
+
+export const readExcel: FormatReader = (input, options) => {
+  const includeHidden = String(options.includeHidden) !== 'false';
+  // Hidden rows and columns are only parsed along with cell styles
+  const workbook = xlsx.read(input, {
+    type: 'buffer',
+    cellDates: true,
+    cellStyles: !includeHidden,
+  });
+
+  const tables = selectSheets(workbook, options, includeHidden).map((name) =>
+    readSheet(workbook.Sheets[name], name, options, includeHidden)
+  );
+  return { tables, multiTable: true };
+};
+
+// Dates come back from JSON as ISO strings (JSON.stringify of a Date)
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+const reviveDates = (row: Row): Row => {
+  Object.keys(row).forEach((key) => {
+    if (typeof row[key] === 'string' && ISO_TIMESTAMP.test(row[key])) {
+      row[key] = new Date(row[key]);
+    }
+  });
+  return row;
+};
+
+// Excel limits sheet names to 31 characters and does not allow : \ / ? * [ ]
+const sheetName = (name: string, used: string[]) => {
+  const base = (name.replace(/[:\\/?*[\]]/g, '_') || 'Sheet').slice(0, 31);
+  let candidate = base;
+  for (let n = 2; used.includes(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.push(candidate.toLowerCase());
+  return candidate;
+};
+
+// Build a workbook with one sheet per table, in table and column order
+export const datasetToWorkbook = (dataset: Dataset) => {
+  const workbook = xlsx.utils.book_new();
+  const used: string[] = [];
+  dataset.tables.forEach((table) => {
+    const rows = flatRows(table).map(reviveDates);
+    xlsx.utils.book_append_sheet(
+      workbook,
+      tableToSheet({ ...table, rows }),
+      sheetName(table.name, used)
+    );
+  });
+  return workbook;
+};
+
+export const writeExcel: FormatWriter = (dataset) => {
+  if (!dataset.tables.length) throw new Error('No tables to write.');
+
+  const workbook = datasetToWorkbook(dataset);
+  return {
+    data: xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' }),
+    extension: 'xlsx',
+    contentType: EXCEL_CONTENT_TYPE,
+  };
+};
+
+registerFormat({
+  name: 'excel',
+  aliases: ['xlsx', 'xls'],
+  read: readExcel,
+  write: writeExcel,
+});
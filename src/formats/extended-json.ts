@@ -0,0 +1,147 @@
+// MongoDB Extended JSON (v2), as written by mongoexport and read by
+// mongoimport. Canonical mode wraps every typed value ({"$numberInt": "1"}),
+// relaxed mode only those plain JSON cannot hold (ids, dates, longs).
+
+type Decoder = (value: any, wrapper: any) => any;
+
+const INT32_MIN = -2147483648;
+const INT32_MAX = 2147483647;
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+
+// Longs and decimals beyond what a double holds exactly are kept as text
+const longValue = (text: string) => {
+  const number = Number(text);
+  return Number.isSafeInteger(number) ? number : String(text);
+};
+
+export const decimalValue = (text: string) => {
+  const number = Number(text);
+  const digits = String(text)
+    .replace(/e.*$/i, '')
+    .replace(/\D/g, '')
+    .replace(/^0+|0+$/g, '');
+  return isFinite(number) && digits.length <= 15 ? number : String(text);
+};
+
+const dateValue = (value: any) => {
+  const date =
+    value && typeof value === 'object' && '$numberLong' in value
+      ? new Date(Number(value.$numberLong))
+      : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid $date: ${JSON.stringify(value)}.`);
+  }
+  return date;
+};
+
+// Wrappers by their first key, with the other keys they may have
+const DECODERS: { [key: string]: { keys: string[]; decode: Decoder } } = {
+  $oid: { keys: [], decode: (value) => String(value) },
+  $date: { keys: [], decode: dateValue },
+  $numberInt: { keys: [], decode: (value) => Number(value) },
+  $numberLong: { keys: [], decode: longValue },
+  $numberDouble: { keys: [], decode: (value) => Number(value) },
+  $numberDecimal: { keys: [], decode: decimalValue },
+  // Binary data as base64, the legacy form has its subtype in $type
+  $binary: {
+    keys: ['$type'],
+    decode: (value) => (typeof value === 'object' ? value.base64 : value),
+  },
+  $uuid: { keys: [], decode: (value) => String(value) },
+  $timestamp: { keys: [], decode: (value) => new Date(value.t * 1000) },
+  $regularExpression: {
+    keys: [],
+    decode: (value) => `/${value.pattern}/${value.options || ''}`,
+  },
+  $regex: {
+    keys: ['$options'],
+    decode: (value, wrapper) => `/${value}/${wrapper.$options || ''}`,
+  },
+  $symbol: { keys: [], decode: (value) => String(value) },
+  $code: { keys: [], decode: (value) => String(value) },
+  $undefined: { keys: [], decode: () => null },
+};
+
+const decoderFor = (value: any) => {
+  const [key, ...others] = Object.keys(value);
+  // Own keys only, {"constructor": ...} is a plain object
+  const decoder = Object.prototype.hasOwnProperty.call(DECODERS, key)
+    ? DECODERS[key]
+    : undefined;
+  return decoder && others.every((other) => decoder.keys.includes(other))
+    ? { key, decoder }
+    : undefined;
+};
+
+// Plain values for Extended JSON wrappers anywhere in a parsed document:
+// ids as their hex text, dates as Date objects and numbers as numbers
+export const decodeExtendedJson = (value: any): any => {
+  if (Array.isArray(value)) return value.map(decodeExtendedJson);
+  if (typeof value !== 'object' || value === null) return value;
+
+  const wrapper = decoderFor(value);
+  if (wrapper) return wrapper.decoder.decode(value[wrapper.key], value);
+
+  const result: { [key: string]: any } = {};
+  Object.keys(value).forEach((key) => {
+    result[key] = decodeExtendedJson(value[key]);
+  });
+  return result;
+};
+
+export interface ExtendedJsonOptions {
+  canonical: boolean;
+  // Dot paths whose 24 character hex strings are written as ObjectIds
+  objectIds: Set<string>;
+}
+
+const encodeNumber = (value: number, canonical: boolean) => {
+  if (!isFinite(value)) return { $numberDouble: String(value) };
+  if (!canonical) return value;
+  if (Number.isInteger(value) && value >= INT32_MIN && value <= INT32_MAX) {
+    return { $numberInt: String(value) };
+  }
+  if (Number.isSafeInteger(value)) return { $numberLong: String(value) };
+  return { $numberDouble: String(value) };
+};
+
+const encodeDate = (value: Date, canonical: boolean) => {
+  const time = value.getTime();
+  if (isNaN(time)) return null;
+  const year = value.getUTCFullYear();
+  // Relaxed mode only uses ISO text for years 1970 to 9999
+  return !canonical && year >= 1970 && year <= 9999
+    ? { $date: value.toISOString() }
+    : { $date: { $numberLong: String(time) } };
+};
+
+// The Extended JSON form of a value, ready for JSON.stringify
+export const encodeExtendedJson = (
+  value: any,
+  options: ExtendedJsonOptions,
+  path = ''
+): any => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'bigint') return { $numberLong: value.toString() };
+  if (typeof value === 'number') return encodeNumber(value, options.canonical);
+  if (value instanceof Date) return encodeDate(value, options.canonical);
+  if (typeof value === 'string') {
+    return options.objectIds.has(path) && OBJECT_ID_PATTERN.test(value)
+      ? { $oid: value.toLowerCase() }
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => encodeExtendedJson(item, options, path));
+  }
+  if (typeof value !== 'object') return value;
+
+  const result: { [key: string]: any } = {};
+  Object.keys(value).forEach((key) => {
+    result[key] = encodeExtendedJson(
+      value[key],
+      options,
+      path ? `${path}.${key}` : key
+    );
+  });
+  return result;
+};
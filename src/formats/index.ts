@@ -0,0 +1,13 @@
+// Importing a format module registers its reader and writer
+import './arrow';
+import './csv';
+import './excel';
+import './json';
+import './mongo';
+import './ndjson';
+import './parquet';
+import './sql';
+import './sqlite';
+import './toml';
+import './xml';
+import './yaml';
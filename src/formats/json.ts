@@ -0,0 +1,154 @@
+import { ConversionError } from '../errors';
+import { registerFormat } from '../registry';
+import {
+  createBatchWriter,
+  parseJsonLine,
+  readJsonValues,
+  readText,
+  streamTables,
+} from '../stream';
+import { createTable, unflattenRow } from '../table';
+import { decodeExtendedJson } from './extended-json';
+import {
+  ConvertOptions,
+  Dataset,
+  FormatReader,
+  FormatWriter,
+  Row,
+  StreamReader,
+  StreamWriter,
+  Table,
+} from '../types';
+
+export const isPlainObject = (value: any) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// { sheetName: rows[] } as written by /excel-json, every value an array of
+// objects. Anything else is a single record.
+const isTableMap = (document: any) =>
+  isPlainObject(document) &&
+  Object.keys(document).length > 0 &&
+  Object.values(document).every(
+    (rows) => Array.isArray(rows) && rows.every(isPlainObject)
+  );
+
+// A JSON document, or one document per line as written by mongoexport
+const parseJson = (text: string) => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    const lines = text.split('\n');
+    const filled = lines.filter((line) => line.trim());
+    if (filled.length < 2 || !filled[0].trim().startsWith('{')) throw e;
+
+    const rows: any[] = [];
+    lines.forEach((line, i) => {
+      if (line.trim()) rows.push(parseJsonLine(line, i + 1));
+    });
+    return rows;
+  }
+};
+
+// The tables of a parsed JSON, YAML or TOML document: a table per key of a
+// { tableName: rows[] } map, otherwise an array of rows or a single record
+export const readDocument = (
+  document: any,
+  options: ConvertOptions
+): Dataset => {
+  if (isTableMap(document)) {
+    const tables = Object.keys(document).map((name) =>
+      createTable(name, document[name])
+    );
+    return { tables, document, multiTable: true };
+  }
+
+  const rows = Array.isArray(document) ? document : [document];
+  return { tables: [createTable(options.fileName, rows)], document };
+};
+
+// MongoDB Extended JSON values ({"$oid": ...}, {"$date": ...}) are read as
+// plain ids, dates and numbers
+export const readJson: FormatReader = (input, options) =>
+  readDocument(decodeExtendedJson(parseJson(input.toString('utf8'))), options);
+
+// Rows with dot path keys (address.city) as nested objects again
+export const unflatten = (options: ConvertOptions) =>
+  String(options.unflatten) === 'true';
+
+// A plain array of rows, or { tableName: rows[] } for multi-table sources
+export const tablesDocument = (dataset: Dataset, options: ConvertOptions) => {
+  const tableRows = (table: Table) =>
+    unflatten(options) ? table.rows.map(unflattenRow) : table.rows;
+
+  if (dataset.tables.length === 1 && !dataset.multiTable) {
+    return tableRows(dataset.tables[0]);
+  }
+  const document: { [name: string]: Row[] } = {};
+  dataset.tables.forEach((table) => {
+    document[table.name] = tableRows(table);
+  });
+  return document;
+};
+
+export const writeJson: FormatWriter = (dataset, options) => ({
+  data: JSON.stringify(tablesDocument(dataset, options), null, 2),
+  extension: 'json',
+  contentType: 'application/json',
+});
+
+// A JSON array or newline delimited JSON, one row per element/line
+export const readJsonStream: StreamReader = (input, options) => ({
+  records: (async function* () {
+    for await (const row of readJsonValues(readText(input))) {
+      yield { table: options.fileName, row: decodeExtendedJson(row) };
+    }
+  })(),
+});
+
+const indent = (text: string, spaces: number) =>
+  text.replace(/^/gm, ' '.repeat(spaces));
+
+// Same layout as writeJson, written one row at a time
+export const writeJsonStream: StreamWriter = {
+  extension: 'json',
+  contentType: 'application/json',
+  write: async (source, output, options) => {
+    const writer = createBatchWriter(output);
+    const rowIndent = source.multiTable ? 4 : 2;
+    let tableCount = 0;
+
+    await writer.write(source.multiTable ? '{' : '[');
+    for await (const table of streamTables(source)) {
+      if (source.multiTable) {
+        await writer.write(
+          `${tableCount ? ',' : ''}\n  ${JSON.stringify(table.name)}: [`
+        );
+      } else if (tableCount) {
+        throw new ConversionError(
+          'Streaming JSON output of a single table got several tables.'
+        );
+      }
+      tableCount++;
+
+      let rowCount = 0;
+      for await (const row of table.rows) {
+        const value = unflatten(options) ? unflattenRow(row) : row;
+        const text = indent(JSON.stringify(value, null, 2), rowIndent);
+        await writer.write(`${rowCount++ ? ',' : ''}\n${text}`);
+      }
+      if (source.multiTable) await writer.write(rowCount ? '\n  ]' : ']');
+    }
+    await writer.write(
+      source.multiTable ? (tableCount ? '\n}' : '}') : tableCount ? '\n]' : ']'
+    );
+    await writer.flush();
+  },
+};
+
+registerFormat({
+  name: 'json',
+  read: readJson,
+  write: writeJson,
+  readStream: readJsonStream,
+  writeStream: writeJsonStream,
+});
@@ -0,0 +1,150 @@
+import AdmZip from 'adm-zip';
+import { ConversionError } from '../errors';
+import { coerceValue, ColumnInfo, inferColumns, parseDate } from '../infer';
+import { parseListOption } from '../options';
+import { registerFormat } from '../registry';
+import { createBatchWriter, streamTables } from '../stream';
+import { unflattenRow } from '../table';
+import {
+  ConvertOptions,
+  FormatWriter,
+  Row,
+  StreamWriter,
+  Table,
+} from '../types';
+import {
+  decimalValue,
+  encodeExtendedJson,
+  ExtendedJsonOptions,
+} from './extended-json';
+import { readJson, readJsonStream } from './json';
+
+const JSON_FORMATS = ['relaxed', 'canonical'];
+const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+// Same options as mongoexport: jsonFormat=relaxed|canonical, and objectIds
+// naming the columns holding ObjectIds (_id by default)
+const getExtendedJsonOptions = (
+  options: ConvertOptions
+): ExtendedJsonOptions => {
+  const jsonFormat = String(options.jsonFormat || 'relaxed').toLowerCase();
+  if (!JSON_FORMATS.includes(jsonFormat)) {
+    throw new ConversionError(
+      `Unsupported jsonFormat option: ${
+        options.jsonFormat
+      }. Expected one of ${JSON_FORMATS.join(', ')}.`
+    );
+  }
+  return {
+    canonical: jsonFormat === 'canonical',
+    objectIds: new Set(
+      parseListOption(options.objectIds, 'objectIds') || ['_id']
+    ),
+  };
+};
+
+// Text from CSV, Excel or XML is typed by its column, so numbers, booleans
+// and dates are stored as such rather than as strings. Decimals a double
+// cannot hold exactly become Decimal128.
+const typeValue = (info: ColumnInfo | undefined, value: any) => {
+  if (!info || typeof value !== 'string') return value;
+  const typed = coerceValue(info, value);
+  if (
+    typeof typed === 'number' &&
+    info.type === 'decimal' &&
+    typeof decimalValue(value.trim()) === 'string'
+  ) {
+    return { $numberDecimal: value.trim() };
+  }
+  if (
+    typeof typed === 'string' &&
+    (info.type === 'date' || info.type === 'timestamp')
+  ) {
+    const date = parseDate(typed);
+    if (!isNaN(date.getTime())) return date;
+  }
+  return typed;
+};
+
+// One Extended JSON document per line, dot path columns nested again
+const createDocumentWriter = (
+  infos: ColumnInfo[],
+  options: ExtendedJsonOptions
+) => {
+  const byName = new Map(infos.map((info) => [info.name, info]));
+  return (row: Row) => {
+    const typed: Row = {};
+    Object.keys(row).forEach((key) => {
+      typed[key] = typeValue(byName.get(key), row[key]);
+    });
+    return `${JSON.stringify(
+      encodeExtendedJson(unflattenRow(typed), options)
+    )}\n`;
+  };
+};
+
+const tableToDocuments = (table: Table, options: ExtendedJsonOptions) => {
+  const writeDocument = createDocumentWriter(inferColumns(table), options);
+  return table.rows.map(writeDocument).join('');
+};
+
+// A file for mongoimport, or a zip of one file per collection for
+// multi-table sources
+export const writeMongo: FormatWriter = (dataset, options) => {
+  const jsonOptions = getExtendedJsonOptions(options);
+  if (dataset.tables.length === 1 && !dataset.multiTable) {
+    return {
+      data: tableToDocuments(dataset.tables[0], jsonOptions),
+      extension: 'json',
+      contentType: NDJSON_CONTENT_TYPE,
+    };
+  }
+
+  const zip = new AdmZip(undefined, { noSort: true });
+  dataset.tables.forEach((table) => {
+    zip.addFile(
+      `${options.fileName}-${table.name}.json`,
+      Buffer.from(tableToDocuments(table, jsonOptions))
+    );
+  });
+
+  return {
+    data: zip.toBuffer(),
+    extension: 'zip',
+    contentType: 'application/zip',
+  };
+};
+
+// Columns are typed from the first rows, like the streaming SQL writer
+export const writeMongoStream: StreamWriter = {
+  extension: 'json',
+  contentType: NDJSON_CONTENT_TYPE,
+  write: async (source, output, options) => {
+    const jsonOptions = getExtendedJsonOptions(options);
+    const writer = createBatchWriter(output);
+    let tableCount = 0;
+
+    for await (const table of streamTables(source)) {
+      if (tableCount++) {
+        throw new ConversionError(
+          'Streaming MongoDB output supports a single collection.'
+        );
+      }
+      const writeDocument = createDocumentWriter(table.infos, jsonOptions);
+      for await (const row of table.rows) {
+        await writer.write(writeDocument(row));
+      }
+    }
+    await writer.flush();
+  },
+};
+
+// Extended JSON input reads the same way as JSON
+registerFormat({
+  name: 'mongo',
+  aliases: ['mongodb', 'ejson'],
+  read: readJson,
+  write: writeMongo,
+  readStream: readJsonStream,
+  writeStream: writeMongoStream,
+});
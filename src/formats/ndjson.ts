@@ -0,0 +1,171 @@
+import AdmZip from 'adm-zip';
+import { ConversionError } from '../errors';
+import { registerFormat } from '../registry';
+import {
+  createBatchWriter,
+  readLines,
+  readText,
+  streamTables,
+} from '../stream';
+import { createTable, unflattenRow } from '../table';
+import {
+  ConvertOptions,
+  FormatReader,
+  FormatWriter,
+  Row,
+  StreamReader,
+  StreamWriter,
+  Table,
+} from '../types';
+import { decodeExtendedJson } from './extended-json';
+import { isPlainObject, unflatten } from './json';
+
+const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+const MALFORMED_LINES_MODES = ['fail', 'skip'];
+// Line numbers listed in the error message, the details hold all of them
+const LISTED_LINES = 10;
+
+export interface MalformedLine {
+  line: number;
+  message: string;
+}
+
+// malformedLines=fail stops at malformed lines, skip leaves them out
+const skipMalformed = (options: ConvertOptions) => {
+  const mode = String(options.malformedLines || 'fail').toLowerCase();
+  if (!MALFORMED_LINES_MODES.includes(mode)) {
+    throw new ConversionError(
+      `Unsupported malformedLines option: ${
+        options.malformedLines
+      }. Expected one of ${MALFORMED_LINES_MODES.join(', ')}.`
+    );
+  }
+  return mode === 'skip';
+};
+
+// Every line holds one object, Extended JSON values read as in JSON input
+const parseRow = (text: string): Row => {
+  const value = JSON.parse(text);
+  if (!isPlainObject(value)) throw new Error('Expected a JSON object.');
+  return decodeExtendedJson(value);
+};
+
+const malformedError = (malformed: MalformedLine[]) => {
+  const lines = malformed.slice(0, LISTED_LINES).map(({ line }) => line);
+  const more = malformed.length > LISTED_LINES ? ', ...' : '';
+  const [first] = malformed;
+  return new ConversionError(
+    `Malformed JSON on line${malformed.length > 1 ? 's' : ''} ${lines.join(
+      ', '
+    )}${more}. Line ${first.line}: ${first.message}`,
+    400,
+    { malformedLines: malformed }
+  );
+};
+
+// Blank lines are ignored. Malformed lines are all collected, so the error
+// lists every one of them.
+export const readNdjson: FormatReader = (input, options) => {
+  const skip = skipMalformed(options);
+  const rows: Row[] = [];
+  const malformed: MalformedLine[] = [];
+
+  input
+    .toString('utf8')
+    .split('\n')
+    .forEach((text, i) => {
+      if (!text.trim()) return;
+      try {
+        rows.push(parseRow(text));
+      } catch (e: any) {
+        malformed.push({ line: i + 1, message: e.message });
+      }
+    });
+
+  if (malformed.length && !skip) throw malformedError(malformed);
+  return { tables: [createTable(options.fileName, rows)] };
+};
+
+export const readNdjsonStream: StreamReader = (input, options) => {
+  const skip = skipMalformed(options);
+  return {
+    records: (async function* () {
+      for await (const { text, line } of readLines(readText(input))) {
+        if (!text.trim()) continue;
+        let row: Row;
+        try {
+          row = parseRow(text);
+        } catch (e: any) {
+          if (skip) continue;
+          throw malformedError([{ line, message: e.message }]);
+        }
+        yield { table: options.fileName, row };
+      }
+    })(),
+  };
+};
+
+const tableLines = (table: Table, options: ConvertOptions) =>
+  table.rows
+    .map(
+      (row) =>
+        `${JSON.stringify(unflatten(options) ? unflattenRow(row) : row)}\n`
+    )
+    .join('');
+
+// One object per line, or a zip of one file per table for multi-table
+// sources
+export const writeNdjson: FormatWriter = (dataset, options) => {
+  if (dataset.tables.length === 1 && !dataset.multiTable) {
+    return {
+      data: tableLines(dataset.tables[0], options),
+      extension: 'ndjson',
+      contentType: NDJSON_CONTENT_TYPE,
+    };
+  }
+
+  const zip = new AdmZip(undefined, { noSort: true });
+  dataset.tables.forEach((table) => {
+    zip.addFile(
+      `${options.fileName}-${table.name}.ndjson`,
+      Buffer.from(tableLines(table, options))
+    );
+  });
+
+  return {
+    data: zip.toBuffer(),
+    extension: 'zip',
+    contentType: 'application/zip',
+  };
+};
+
+export const writeNdjsonStream: StreamWriter = {
+  extension: 'ndjson',
+  contentType: NDJSON_CONTENT_TYPE,
+  write: async (source, output, options) => {
+    const writer = createBatchWriter(output);
+    let tableCount = 0;
+
+    for await (const table of streamTables(source)) {
+      if (tableCount++) {
+        throw new ConversionError(
+          'Streaming NDJSON output supports a single table.'
+        );
+      }
+      for await (const row of table.rows) {
+        const value = unflatten(options) ? unflattenRow(row) : row;
+        await writer.write(`${JSON.stringify(value)}\n`);
+      }
+    }
+    await writer.flush();
+  },
+};
+
+registerFormat({
+  name: 'ndjson',
+  aliases: ['jsonl', 'jsonlines'],
+  read: readNdjson,
+  write: writeNdjson,
+  readStream: readNdjsonStream,
+  writeStream: writeNdjsonStream,
+});
@@ -0,0 +1,82 @@
+import { tableFromIPC, tableToIPC } from 'apache-arrow';
+import { ConversionError } from '../errors';
+import { registerFormat } from '../registry';
+import { ConvertOptions, FormatReader, FormatWriter, Table } from '../types';
+import { fromArrowTable, toArrowTable, writeTableFiles } from './arrow';
+
+type ParquetWasm = typeof import('parquet-wasm');
+
+const PARQUET_CONTENT_TYPE = 'application/vnd.apache.parquet';
+const PARQUET_MAGIC = 'PAR1';
+const COMPRESSIONS = ['snappy', 'gzip', 'none'];
+
+// The WebAssembly build of the Rust Parquet library, loaded once on first use
+let parquetWasm: Promise<ParquetWasm> | undefined;
+const loadParquetWasm = () => {
+  if (!parquetWasm) parquetWasm = import('parquet-wasm');
+  return parquetWasm;
+};
+
+export const isParquet = (input: Buffer) =>
+  input.subarray(0, PARQUET_MAGIC.length).toString('latin1') === PARQUET_MAGIC;
+
+const getCompression = (parquet: ParquetWasm, options: ConvertOptions) => {
+  const compression = String(options.compression || 'snappy').toLowerCase();
+  if (!COMPRESSIONS.includes(compression)) {
+    throw new ConversionError(
+      `Unsupported compression option: ${
+        options.compression
+      }. Expected one of ${COMPRESSIONS.join(', ')}.`
+    );
+  }
+  return {
+    snappy: parquet.Compression.SNAPPY,
+    gzip: parquet.Compression.GZIP,
+    none: parquet.Compression.UNCOMPRESSED,
+  }[compression]!;
+};
+
+// Parquet is read through Arrow, so values come out as for Arrow input
+export const readParquet: FormatReader = async (input, options) => {
+  const parquet = await loadParquetWasm();
+  const arrow = tableFromIPC(parquet.readParquet(input).intoIPCStream());
+  return { tables: [fromArrowTable(options.fileName, arrow)] };
+};
+
+// A Parquet file with the schema Arrow output infers, snappy compressed
+// unless options.compression says otherwise. Multi-table sources give a zip
+// of one file per table.
+export const writeParquet: FormatWriter = async (dataset, options) => {
+  const parquet = await loadParquetWasm();
+  const compression = getCompression(parquet, options);
+  const writeTable = (table: Table) => {
+    const properties = new parquet.WriterPropertiesBuilder()
+      .setCompression(compression)
+      .build();
+    const arrow = parquet.Table.fromIPCStream(
+      tableToIPC(toArrowTable(table), 'stream')
+    );
+    return parquet.writeParquet(arrow, properties);
+  };
+
+  if (dataset.tables.length === 1 && !dataset.multiTable) {
+    return {
+      data: Buffer.from(writeTable(dataset.tables[0])),
+      extension: 'parquet',
+      contentType: PARQUET_CONTENT_TYPE,
+    };
+  }
+
+  return {
+    data: writeTableFiles(dataset.tables, options, 'parquet', writeTable),
+    extension: 'zip',
+    contentType: 'application/zip',
+  };
+};
+
+registerFormat({
+  name: 'parquet',
+  aliases: ['pq'],
+  read: readParquet,
+  write: writeParquet,
+});
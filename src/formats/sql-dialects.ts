@@ -0,0 +1,214 @@
+import { ConversionError } from '../errors';
+import { ColumnInfo } from '../infer';
+
+export interface SqlDialect {
+  name: string;
+  quoteIdentifier: (name: string) => string;
+  string: (value: string) => string;
+  boolean: (value: boolean) => string;
+  date: (value: Date) => string;
+  columnType: (column: ColumnInfo) => string;
+  reservedWords: Set<string>;
+}
+
+// Words reserved by every supported database
+const COMMON_RESERVED_WORDS = `
+  ADD ALL ALTER AND ANY AS ASC BETWEEN BY CASE CHECK COLUMN CONSTRAINT CREATE
+  CROSS CURRENT_DATE CURRENT_TIME CURRENT_TIMESTAMP CURRENT_USER DEFAULT
+  DELETE DESC DISTINCT DROP ELSE END EXISTS FOREIGN FROM FULL GROUP HAVING IN
+  INDEX INNER INSERT INTO IS JOIN KEY LEFT LIKE NOT NULL ON OR ORDER OUTER
+  PRIMARY REFERENCES RIGHT SELECT SET TABLE THEN TO UNION UNIQUE UPDATE USER
+  USING VALUES WHEN WHERE WITH
+`
+  .trim()
+  .split(/\s+/);
+
+const reserved = (words: string) =>
+  new Set([...COMMON_RESERVED_WORDS, ...words.trim().split(/\s+/)]);
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 'YYYY-MM-DD' for whole days, 'YYYY-MM-DD HH:MM:SS[.mmm]' otherwise (UTC)
+const formatDate = (value: Date, separator = ' ') => {
+  const date = `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(
+    value.getUTCDate()
+  )}`;
+  const hasTime =
+    value.getUTCHours() ||
+    value.getUTCMinutes() ||
+    value.getUTCSeconds() ||
+    value.getUTCMilliseconds();
+  if (!hasTime) return date;
+
+  const ms = value.getUTCMilliseconds();
+  return `${date}${separator}${pad(value.getUTCHours())}:${pad(
+    value.getUTCMinutes()
+  )}:${pad(value.getUTCSeconds())}${ms ? `.${pad(ms, 3)}` : ''}`;
+};
+
+// DECIMAL(p, s) wide enough for every value seen
+const decimalType = (name: string, column: ColumnInfo) => {
+  const precision = Math.min(
+    Math.max(column.integerDigits + column.scale, 1),
+    38
+  );
+  return `${name}(${precision}, ${Math.min(column.scale, precision)})`;
+};
+
+const varcharType = (name: string, column: ColumnInfo, limit: number) =>
+  column.maxLength <= limit ? `${name}(${Math.max(column.maxLength, 1)})` : '';
+
+const quoteString = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const mysql: SqlDialect = {
+  name: 'mysql',
+  quoteIdentifier: (name) => `\`${name.replace(/`/g, '``')}\``,
+  // MySQL treats backslashes in strings as escapes by default
+  string: (value) => quoteString(value.replace(/\\/g, '\\\\')),
+  boolean: (value) => (value ? 'TRUE' : 'FALSE'),
+  date: (value) => `'${formatDate(value)}'`,
+  columnType: (column) =>
+    ({
+      integer: column.big ? 'BIGINT' : 'INT',
+      decimal: decimalType('DECIMAL', column),
+      boolean: 'BOOLEAN',
+      date: 'DATE',
+      timestamp: 'DATETIME',
+      string: varcharType('VARCHAR', column, 255) || 'TEXT',
+    }[column.type]),
+  reservedWords: reserved(`
+    ACCESSIBLE CHANGE DATABASE DIV DUAL FULLTEXT INTERVAL KEYS LIMIT LOCK MOD
+    RANGE READ REGEXP RENAME REPLACE RLIKE ROW ROWS SCHEMA SHOW SPATIAL
+    STATUS TRIGGER USAGE WRITE
+  `),
+};
+
+const postgres: SqlDialect = {
+  name: 'postgres',
+  quoteIdentifier: (name) => `"${name.replace(/"/g, '""')}"`,
+  string: quoteString,
+  boolean: (value) => (value ? 'TRUE' : 'FALSE'),
+  date: (value) => `'${formatDate(value)}'`,
+  columnType: (column) =>
+    ({
+      integer: column.big ? 'BIGINT' : 'INTEGER',
+      decimal: decimalType('NUMERIC', column),
+      boolean: 'BOOLEAN',
+      date: 'DATE',
+      timestamp: 'TIMESTAMP',
+      string: varcharType('VARCHAR', column, 255) || 'TEXT',
+    }[column.type]),
+  reservedWords: reserved(`
+    ANALYSE ANALYZE ARRAY ASYMMETRIC BOTH CAST COLLATE DEFERRABLE DO FALSE
+    FETCH FOR GRANT INITIALLY INTERSECT LATERAL LEADING LIMIT LOCALTIME
+    LOCALTIMESTAMP OFFSET ONLY PLACING RETURNING SESSION_USER SOME SYMMETRIC
+    TRAILING TRUE VARIADIC WINDOW
+  `),
+};
+
+const sqlite: SqlDialect = {
+  name: 'sqlite',
+  quoteIdentifier: (name) => `"${name.replace(/"/g, '""')}"`,
+  string: quoteString,
+  // SQLite has no boolean type, booleans are stored as integers
+  boolean: (value) => (value ? '1' : '0'),
+  date: (value) => `'${formatDate(value)}'`,
+  // SQLite only has storage classes, dates are kept as ISO text
+  columnType: (column) =>
+    ({
+      integer: 'INTEGER',
+      decimal: 'REAL',
+      boolean: 'INTEGER',
+      date: 'TEXT',
+      timestamp: 'TEXT',
+      string: 'TEXT',
+    }[column.type]),
+  reservedWords: reserved(`
+    ABORT AUTOINCREMENT COLLATE CONFLICT DEFERRABLE EXCEPT GLOB INTERSECT
+    ISNULL LIMIT NOTNULL OFFSET PRAGMA RAISE REGEXP REPLACE TRANSACTION
+    VACUUM
+  `),
+};
+
+const sqlserver: SqlDialect = {
+  name: 'sqlserver',
+  quoteIdentifier: (name) => `[${name.replace(/]/g, ']]')}]`,
+  // N prefix keeps non-latin text intact in NVARCHAR columns
+  string: (value) => `N${quoteString(value)}`,
+  boolean: (value) => (value ? '1' : '0'),
+  // ISO 8601 with a T is read the same way regardless of DATEFORMAT
+  date: (value) => `'${formatDate(value, 'T')}'`,
+  columnType: (column) =>
+    ({
+      integer: column.big ? 'BIGINT' : 'INT',
+      decimal: decimalType('DECIMAL', column),
+      boolean: 'BIT',
+      date: 'DATE',
+      timestamp: 'DATETIME2',
+      string: varcharType('NVARCHAR', column, 4000) || 'NVARCHAR(MAX)',
+    }[column.type]),
+  reservedWords: reserved(`
+    BACKUP BREAK BROWSE BULK CLUSTERED COMPUTE CONTAINS DATABASE DBCC DENY
+    DUMP EXEC EXECUTE FILE FILLFACTOR FUNCTION GOTO GRANT IDENTITY KILL MERGE
+    NOCHECK OPEN PERCENT PLAN PRINT PROC PROCEDURE PUBLIC READ RULE SCHEMA
+    TOP TRAN TRIGGER TRUNCATE VIEW
+  `),
+};
+
+const DIALECTS: { [name: string]: SqlDialect } = {
+  mysql,
+  mariadb: mysql,
+  postgres,
+  postgresql: postgres,
+  pg: postgres,
+  sqlite,
+  sqlite3: sqlite,
+  sqlserver,
+  mssql: sqlserver,
+  tsql: sqlserver,
+};
+
+export const DIALECT_NAMES = ['mysql', 'postgres', 'sqlite', 'sqlserver'];
+
+// MySQL stays the default, it matches what /excel-sql always produced
+export const getDialect = (name: string = 'mysql'): SqlDialect => {
+  const dialect = DIALECTS[String(name).toLowerCase()];
+  if (!dialect) {
+    throw new ConversionError(
+      `Unsupported SQL dialect: ${name}. Expected one of ${DIALECT_NAMES.join(
+        ', '
+      )}.`
+    );
+  }
+  return dialect;
+};
+
+// With quoting "auto", only reserved words and unusual names are quoted
+export const formatIdentifier = (
+  dialect: SqlDialect,
+  name: string,
+  quote: string = 'always'
+) => {
+  const isPlain = /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name);
+  if (
+    quote === 'auto' &&
+    isPlain &&
+    !dialect.reservedWords.has(name.toUpperCase())
+  ) {
+    return name;
+  }
+  return dialect.quoteIdentifier(name);
+};
+
+export const formatValue = (dialect: SqlDialect, value: any): string => {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number')
+    return isFinite(value) ? String(value) : 'NULL';
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'boolean') return dialect.boolean(value);
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? 'NULL' : dialect.date(value);
+  }
+  if (typeof value === 'object') return dialect.string(JSON.stringify(value));
+  return dialect.string(String(value));
+};
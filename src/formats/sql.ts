@@ -0,0 +1,502 @@
+import { registerFormat } from '../registry';
+import {
+  ColumnInfo,
+  coerceValue,
+  findPrimaryKey,
+  inferColumns,
+} from '../infer';
+import { parseObjectOption } from '../options';
+import { createBatchWriter, readText, streamTables } from '../stream';
+import { flatRows, flattenRow } from '../table';
+import { formatIdentifier, formatValue, getDialect } from './sql-dialects';
+import {
+  ConvertOptions,
+  FormatReader,
+  FormatWriter,
+  Row,
+  StreamReader,
+  StreamWriter,
+  Table,
+} from '../types';
+
+type SqlToken = {
+  type: 'word' | 'identifier' | 'string' | 'number' | 'symbol';
+  value: string;
+};
+
+// Markers only MySQL dumps have: backtick identifiers, /*!40101 ... */
+// version comments, ENGINE= table options and the mysqldump header
+const MYSQL_DUMP_PATTERN =
+  /`|\/\*!\d|\bENGINE\s*=|^\s*-- (MySQL|MariaDB) dump/im;
+
+// MySQL reads backslashes in strings as escapes, PostgreSQL, SQLite and SQL
+// Server as plain characters. The dump itself decides: options.dialect is
+// the dialect of the output, not of the input.
+const usesBackslashEscapes = (sample: string) =>
+  MYSQL_DUMP_PATTERN.test(sample);
+
+// Split a SQL dump into tokens, dropping whitespace and comments. E'...'
+// strings always take backslash escapes.
+const tokenizeSql = (sql: string, backslashEscapes: boolean): SqlToken[] => {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const readQuoted = (close: string, backslashEscapes: boolean): string => {
+    let value = '';
+    i++; // skip the opening quote
+    while (i < sql.length) {
+      const char = sql[i];
+      if (backslashEscapes && char === '\\' && i + 1 < sql.length) {
+        const next = sql[i + 1];
+        const escapes: { [key: string]: string } = {
+          n: '\n',
+          r: '\r',
+          t: '\t',
+          '0': '\0',
+          b: '\b',
+          Z: '\x1a',
+        };
+        value += escapes[next] ?? next;
+        i += 2;
+      } else if (char === close && sql[i + 1] === close) {
+        value += close; // doubled quote is an escaped quote
+        i += 2;
+      } else if (char === close) {
+        i++;
+        return value;
+      } else {
+        value += char;
+        i++;
+      }
+    }
+    throw new Error(`Unterminated quoted value: ${value.slice(0, 30)}`);
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (char === '#') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (char === "'") {
+      tokens.push({ type: 'string', value: readQuoted("'", backslashEscapes) });
+    } else if (char === '"' || char === '`') {
+      tokens.push({ type: 'identifier', value: readQuoted(char, false) });
+    } else if (char === '[') {
+      tokens.push({ type: 'identifier', value: readQuoted(']', false) });
+    } else if (
+      /[0-9]/.test(char) ||
+      (char === '.' && /[0-9]/.test(sql[i + 1]))
+    ) {
+      const match = sql.slice(i).match(/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i)!;
+      tokens.push({ type: 'number', value: match[0] });
+      i += match[0].length;
+    } else if (/[a-zA-Z_$@]/.test(char)) {
+      const match = sql.slice(i).match(/^[a-zA-Z0-9_$@]+/)!;
+      // N'...' and E'...' string prefixes
+      if (/^[nNeE]$/.test(match[0]) && sql[i + 1] === "'") {
+        i++;
+        const escapes = backslashEscapes || /^[eE]$/.test(match[0]);
+        tokens.push({ type: 'string', value: readQuoted("'", escapes) });
+        continue;
+      }
+      tokens.push({ type: 'word', value: match[0] });
+      i += match[0].length;
+    } else {
+      tokens.push({ type: 'symbol', value: char });
+      i++;
+    }
+  }
+
+  return tokens;
+};
+
+// Group tokens into statements separated by top level semicolons
+const splitSqlStatements = (tokens: SqlToken[]): SqlToken[][] => {
+  const statements: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+
+  tokens.forEach((token) => {
+    if (token.type === 'symbol' && token.value === ';') {
+      if (current.length) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  });
+  if (current.length) statements.push(current);
+
+  return statements;
+};
+
+const isWord = (token: SqlToken | undefined, ...words: string[]) =>
+  !!token && token.type === 'word' && words.includes(token.value.toUpperCase());
+
+const isSymbol = (token: SqlToken | undefined, symbol: string) =>
+  !!token && token.type === 'symbol' && token.value === symbol;
+
+// Read a possibly schema-qualified name and keep the last part (db.table -> table)
+const readSqlName = (tokens: SqlToken[], start: number) => {
+  let index = start;
+  let name = tokens[index]?.value;
+  if (!name) throw new Error('Expected a table name');
+  index++;
+  while (isSymbol(tokens[index], '.') && tokens[index + 1]) {
+    name = tokens[index + 1].value;
+    index += 2;
+  }
+  return { name, index };
+};
+
+// Split the tokens between a pair of parentheses on top level commas
+const readSqlGroup = (tokens: SqlToken[], start: number) => {
+  if (!isSymbol(tokens[start], '(')) throw new Error('Expected "("');
+
+  const items: SqlToken[][] = [[]];
+  let depth = 0;
+  let index = start;
+
+  for (; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (isSymbol(token, '(')) {
+      depth++;
+      if (depth === 1) continue;
+    } else if (isSymbol(token, ')')) {
+      depth--;
+      if (depth === 0) break;
+    } else if (depth === 1 && isSymbol(token, ',')) {
+      items.push([]);
+      continue;
+    }
+    items[items.length - 1].push(token);
+  }
+  if (depth !== 0) throw new Error('Unbalanced parentheses');
+
+  return { items: items.filter((item) => item.length), index: index + 1 };
+};
+
+const sqlTokensToValue = (tokens: SqlToken[]): any => {
+  if (tokens.length === 1) {
+    const [token] = tokens;
+    if (token.type === 'string') return token.value;
+    if (token.type === 'number') return Number(token.value);
+    if (isWord(token, 'NULL')) return null;
+    if (isWord(token, 'TRUE')) return true;
+    if (isWord(token, 'FALSE')) return false;
+  }
+  if (
+    tokens.length === 2 &&
+    tokens[1].type === 'number' &&
+    (isSymbol(tokens[0], '-') || isSymbol(tokens[0], '+'))
+  ) {
+    return Number(tokens[0].value + tokens[1].value);
+  }
+
+  // Anything else (function calls, casts) is kept as its raw text
+  return tokens.map((token) => token.value).join('');
+};
+
+const TABLE_CONSTRAINT_WORDS = [
+  'PRIMARY',
+  'KEY',
+  'UNIQUE',
+  'CONSTRAINT',
+  'INDEX',
+  'FOREIGN',
+  'CHECK',
+  'FULLTEXT',
+  'SPATIAL',
+];
+
+// Columns seen so far for every table, in first-seen order
+type SqlSchema = Map<string, string[]>;
+
+const addColumn = (columns: string[], column: string) => {
+  if (!columns.includes(column)) columns.push(column);
+};
+
+// Parse one CREATE TABLE or INSERT statement. CREATE TABLE only records the
+// columns in the schema, INSERT returns the rows it holds.
+const parseSqlStatement = (
+  tokens: SqlToken[],
+  schema: SqlSchema
+): { table: string; rows: Row[] } | undefined => {
+  let index = 0;
+  const getColumns = (name: string) => {
+    if (!schema.has(name)) schema.set(name, []);
+    return schema.get(name)!;
+  };
+
+  if (isWord(tokens[0], 'CREATE')) {
+    while (tokens[index] && !isWord(tokens[index], 'TABLE')) index++;
+    if (!tokens[index]) return; // CREATE INDEX, CREATE VIEW etc.
+    index++;
+    if (isWord(tokens[index], 'IF')) index += 3; // IF NOT EXISTS
+
+    const { name, index: next } = readSqlName(tokens, index);
+    if (!isSymbol(tokens[next], '(')) return; // CREATE TABLE ... AS SELECT
+    const tableColumns = getColumns(name);
+    const { items } = readSqlGroup(tokens, next);
+
+    items.forEach((definition) => {
+      if (
+        definition[0].type === 'word' &&
+        isWord(definition[0], ...TABLE_CONSTRAINT_WORDS)
+      )
+        return;
+      addColumn(tableColumns, definition[0].value);
+    });
+    return { table: name, rows: [] };
+  }
+
+  if (isWord(tokens[0], 'INSERT', 'REPLACE')) {
+    while (tokens[index] && !isWord(tokens[index], 'INTO')) index++;
+    if (!tokens[index]) throw new Error('Expected INTO in INSERT statement');
+
+    const { name, index: afterName } = readSqlName(tokens, index + 1);
+    const tableColumns = getColumns(name);
+    index = afterName;
+
+    let columns = tableColumns;
+    if (isSymbol(tokens[index], '(')) {
+      const group = readSqlGroup(tokens, index);
+      columns = group.items.map((item) => item[0].value);
+      index = group.index;
+    }
+    columns.forEach((column) => addColumn(tableColumns, column));
+
+    if (!isWord(tokens[index], 'VALUES', 'VALUE')) {
+      throw new Error(`Unsupported INSERT into ${name}, expected VALUES`);
+    }
+    index++;
+
+    const rows: Row[] = [];
+    while (isSymbol(tokens[index], '(')) {
+      const group = readSqlGroup(tokens, index);
+      const row: Row = {};
+
+      group.items.forEach((item, position) => {
+        const column = columns[position] ?? `column${position + 1}`;
+        addColumn(tableColumns, column);
+        row[column] = sqlTokensToValue(item);
+      });
+      rows.push(row);
+
+      index = group.index;
+      if (isSymbol(tokens[index], ',')) index++;
+    }
+    return { table: name, rows };
+  }
+};
+
+// Parse CREATE TABLE and INSERT statements from a SQL dump into tables of rows
+export const parseSqlDump = (sql: string): Table[] => {
+  const schema: SqlSchema = new Map();
+  const rows = new Map<string, Row[]>();
+
+  const backslashEscapes = usesBackslashEscapes(sql);
+  splitSqlStatements(tokenizeSql(sql, backslashEscapes)).forEach((tokens) => {
+    const result = parseSqlStatement(tokens, schema);
+    if (!result) return;
+    if (!rows.has(result.table)) rows.set(result.table, []);
+    const tableRows = rows.get(result.table)!;
+    result.rows.forEach((row) => tableRows.push(row));
+  });
+
+  return Array.from(rows.keys()).map((name) => ({
+    name,
+    columns: schema.get(name)!,
+    rows: rows.get(name)!,
+  }));
+};
+
+export const readSql: FormatReader = (input) => ({
+  tables: parseSqlDump(input.toString('utf8')),
+  multiTable: true,
+});
+
+// Split streamed SQL text into statements on semicolons outside of quotes
+// and comments, carrying the scanner state across chunks. Strings take
+// backslash escapes from the first MySQL marker on.
+async function* splitSqlText(chunks: AsyncIterable<string>) {
+  let statement = '';
+  let state: 'code' | 'line' | 'block' | string = 'code'; // or a quote char
+  let backslashEscapes = false;
+  let stringEscapes = false;
+  let escaped = false;
+  let carry = '';
+  // The last two characters, to spot E'...' strings
+  let tail = '';
+
+  for await (const chunk of chunks) {
+    if (!backslashEscapes) backslashEscapes = usesBackslashEscapes(chunk);
+    const text = carry + chunk;
+    carry = '';
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const next = text[i + 1];
+      // Two character tokens may be split across chunks
+      if (next === undefined && /[-/*\\]/.test(char)) {
+        carry = char;
+        break;
+      }
+
+      if (state === 'code') {
+        if (char === '-' && next === '-') state = 'line';
+        else if (char === '#') state = 'line';
+        else if (char === '/' && next === '*') state = 'block';
+        else if (char === '[') state = ']';
+        else if (char === "'") {
+          state = char;
+          stringEscapes = backslashEscapes || /(^|[^\w$@])[eE]$/.test(tail);
+        } else if (char === '"' || char === '`') state = char;
+        else if (char === ';') {
+          yield { text: statement + text.slice(start, i), backslashEscapes };
+          statement = '';
+          start = i + 1;
+        }
+      } else if (state === 'line') {
+        if (char === '\n') state = 'code';
+      } else if (state === 'block') {
+        if (char === '*' && next === '/') {
+          state = 'code';
+          i++;
+        }
+      } else if (escaped) {
+        escaped = false;
+      } else if (char === '\\' && state === "'" && stringEscapes) {
+        escaped = true;
+      } else if (char === state) {
+        state = 'code'; // doubled quotes reopen on the next character
+      }
+      tail = (tail + char).slice(-2);
+    }
+    statement += text.slice(start, text.length - carry.length);
+  }
+
+  statement += carry;
+  if (statement.trim()) yield { text: statement, backslashEscapes };
+}
+
+export const readSqlStream: StreamReader = (input) => ({
+  records: (async function* () {
+    const schema: SqlSchema = new Map();
+    for await (const { text, backslashEscapes } of splitSqlText(
+      readText(input)
+    )) {
+      const tokens = tokenizeSql(text, backslashEscapes);
+      if (!tokens.length) continue;
+      const result = parseSqlStatement(tokens, schema);
+      if (!result) continue;
+      for (const row of result.rows) yield { table: result.table, row };
+    }
+  })(),
+  multiTable: true,
+});
+
+// Builds CREATE TABLE and INSERT statements for the requested dialect
+// (options.dialect, options.quote). options.columnTypes overrides inferred
+// types by column name and options.primaryKey picks (or with "none"
+// disables) the primary key.
+export const createSqlBuilder = (options: ConvertOptions) => {
+  const dialect = getDialect(options.dialect);
+  const columnTypes =
+    parseObjectOption(options.columnTypes, 'columnTypes') || {};
+  const identifier = (name: string) =>
+    formatIdentifier(dialect, name, options.quote);
+
+  return {
+    createTable: (name: string, infos: ColumnInfo[]) => {
+      const primaryKey =
+        options.primaryKey === 'none'
+          ? undefined
+          : options.primaryKey || findPrimaryKey(infos);
+
+      const definitions = infos.map((info) => {
+        const type = columnTypes[info.name] || dialect.columnType(info);
+        const notNull = !info.nullable || info.name === primaryKey;
+        return `  ${identifier(info.name)} ${type}${
+          notNull ? ' NOT NULL' : ''
+        }`;
+      });
+      if (primaryKey && infos.some((info) => info.name === primaryKey)) {
+        definitions.push(`  PRIMARY KEY (${identifier(primaryKey)})`);
+      }
+
+      return `CREATE TABLE ${identifier(name)} (\n${definitions.join(
+        ',\n'
+      )}\n);\n\n`;
+    },
+    insert: (name: string, infos: ColumnInfo[], row: Row) => {
+      const columns = infos.map((info) => identifier(info.name));
+      const values = infos.map((info) =>
+        formatValue(dialect, coerceValue(info, row[info.name]))
+      );
+      return `INSERT INTO ${identifier(name)} (${columns.join(
+        ', '
+      )}) VALUES (${values.join(', ')});\n`;
+    },
+  };
+};
+
+// CREATE TABLE with inferred column types plus one INSERT statement per row,
+// for every table
+export const writeSql: FormatWriter = (dataset, options) => {
+  const builder = createSqlBuilder(options);
+
+  const sqlContent = dataset.tables
+    .map((table) => {
+      const infos = inferColumns(table);
+      let sql = builder.createTable(table.name, infos);
+      flatRows(table).forEach((row) => {
+        sql += builder.insert(table.name, infos, row);
+      });
+      return sql;
+    })
+    .join('\n');
+
+  return {
+    data: sqlContent,
+    extension: 'sql',
+    contentType: 'application/sql',
+  };
+};
+
+// Column types come from the first rows, so every column stays nullable
+// and strings use the dialect's unbounded text type
+export const writeSqlStream: StreamWriter = {
+  extension: 'sql',
+  contentType: 'application/sql',
+  write: async (source, output, options) => {
+    const builder = createSqlBuilder(options);
+    const writer = createBatchWriter(output);
+    let tableCount = 0;
+
+    for await (const table of streamTables(source)) {
+      if (tableCount++) await writer.write('\n');
+      await writer.write(builder.createTable(table.name, table.infos));
+      for await (const row of table.rows) {
+        const flatRow = flattenRow(row);
+        table.checkColumns(flatRow);
+        await writer.write(builder.insert(table.name, table.infos, flatRow));
+      }
+    }
+    await writer.flush();
+  },
+};
+
+registerFormat({
+  name: 'sql',
+  read: readSql,
+  write: writeSql,
+  readStream: readSqlStream,
+  writeStream: writeSqlStream,
+});
@@ -0,0 +1,133 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { ConversionError } from '../errors';
+import { inferColumns } from '../infer';
+import { parseListOption } from '../options';
+import { registerFormat } from '../registry';
+import { flatRows } from '../table';
+import { createSqlBuilder } from './sql';
+import { formatIdentifier, getDialect } from './sql-dialects';
+import {
+  ConvertOptions,
+  FormatReader,
+  FormatWriter,
+  Row,
+  Table,
+} from '../types';
+
+const SQLITE_HEADER = 'SQLite format 3\0';
+
+// The WebAssembly build of SQLite, loaded once on first use
+let sqlJs: Promise<SqlJsStatic> | undefined;
+const loadSqlJs = () => {
+  if (!sqlJs) sqlJs = initSqlJs();
+  return sqlJs;
+};
+
+export const isSqlite = (input: Buffer) =>
+  input.subarray(0, SQLITE_HEADER.length).toString('latin1') === SQLITE_HEADER;
+
+// Blobs have no text form, so they are kept as base64
+const readValue = (value: SqlValue) =>
+  value instanceof Uint8Array ? Buffer.from(value).toString('base64') : value;
+
+const queryTable = (db: Database, sql: string, name: string): Table => {
+  const statement = db.prepare(sql);
+  try {
+    const columns = statement.getColumnNames();
+    const rows: Row[] = [];
+    while (statement.step()) {
+      const row: Row = {};
+      statement.get().forEach((value, i) => {
+        row[columns[i]] = readValue(value);
+      });
+      rows.push(row);
+    }
+    return { name, columns, rows };
+  } finally {
+    statement.free();
+  }
+};
+
+// User tables in creation order, views included when asked for by name
+const listTables = (db: Database, includeViews: boolean): string[] => {
+  const [result] = db.exec(
+    `SELECT name FROM sqlite_master WHERE type IN (${
+      includeViews ? "'table', 'view'" : "'table'"
+    }) AND name NOT LIKE 'sqlite_%' ORDER BY rowid`
+  );
+  return result ? result.values.map(([name]) => String(name)) : [];
+};
+
+// options.query runs a SELECT (or WITH) into a single table, otherwise
+// every table or those listed in options.tables is read
+const readDatabase = (db: Database, options: ConvertOptions) => {
+  if (options.query) {
+    const query = String(options.query).trim();
+    if (!/^(SELECT|WITH)\b/i.test(query)) {
+      throw new ConversionError('The "query" option must be a SELECT.');
+    }
+    return { tables: [queryTable(db, query, options.fileName)] };
+  }
+
+  const requested = parseListOption(options.tables, 'tables');
+  const available = listTables(db, !!requested);
+  const names = requested || available;
+  const dialect = getDialect('sqlite');
+  return {
+    tables: names.map((name) => {
+      if (!available.includes(name)) {
+        throw new ConversionError(`Table not found: ${name}.`);
+      }
+      const table = formatIdentifier(dialect, name);
+      return queryTable(db, `SELECT * FROM ${table}`, name);
+    }),
+    multiTable: true,
+  };
+};
+
+export const readSqlite: FormatReader = async (input, options) => {
+  if (!isSqlite(input)) throw new Error('Not a SQLite database.');
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(input);
+  try {
+    return readDatabase(db, options);
+  } finally {
+    db.close();
+  }
+};
+
+// A new database with one table per table of the dataset, typed and keyed
+// like the CREATE TABLE statements of /{from}-sql?dialect=sqlite
+export const writeSqlite: FormatWriter = async (dataset, options) => {
+  if (!dataset.tables.length) throw new Error('No tables to write.');
+  const builder = createSqlBuilder({ ...options, dialect: 'sqlite' });
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run('BEGIN');
+    dataset.tables.forEach((table) => {
+      const infos = inferColumns(table);
+      db.run(builder.createTable(table.name, infos));
+      flatRows(table).forEach((row) => {
+        db.run(builder.insert(table.name, infos, row));
+      });
+    });
+    db.run('COMMIT');
+
+    return {
+      data: Buffer.from(db.export()),
+      extension: 'sqlite',
+      contentType: 'application/vnd.sqlite3',
+    };
+  } finally {
+    db.close();
+  }
+};
+
+registerFormat({
+  name: 'sqlite',
+  aliases: ['db', 'sqlite3'],
+  read: readSqlite,
+  write: writeSqlite,
+});
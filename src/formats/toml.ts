@@ -0,0 +1,71 @@
+import { parse, stringify, TomlDate, TomlError } from 'smol-toml';
+import { registerFormat } from '../registry';
+import { FormatReader, FormatWriter } from '../types';
+import { isPlainObject, readDocument, tablesDocument } from './json';
+
+// Dates and times as the text they were written as, like dates in JSON
+const readValue = (value: any): any => {
+  if (value instanceof TomlDate) return value.toISOString();
+  if (Array.isArray(value)) return value.map(readValue);
+  if (!isPlainObject(value)) return value;
+
+  const result: { [key: string]: any } = {};
+  Object.keys(value).forEach((key) => {
+    result[key] = readValue(value[key]);
+  });
+  return result;
+};
+
+// Arrays of tables ([[name]]) are rows, so a file of them reads like a
+// { tableName: rows[] } JSON document
+export const readToml: FormatReader = (input, options) => {
+  let document;
+  try {
+    document = parse(input.toString('utf8'));
+  } catch (e: any) {
+    if (!(e instanceof TomlError)) throw e;
+    throw new Error(
+      `${e.message.split('\n')[0]} at line ${e.line}, column ${e.column}`
+    );
+  }
+  return readDocument(readValue(document), options);
+};
+
+// TOML has no null: empty values are left out of tables and written as ''
+// in arrays, so items keep their position
+const tomlValue = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      item === null || item === undefined ? '' : tomlValue(item)
+    );
+  }
+  if (!isPlainObject(value) || value instanceof Date) return value;
+
+  const result: { [key: string]: any } = {};
+  Object.keys(value).forEach((key) => {
+    if (value[key] !== null && value[key] !== undefined) {
+      result[key] = tomlValue(value[key]);
+    }
+  });
+  return result;
+};
+
+// A TOML document is a table: documents of JSON, YAML or TOML input are
+// written as they are, rows as an array of tables named after their table
+// ([[people]]). Objects nest as tables, arrays of objects as arrays of
+// tables.
+export const writeToml: FormatWriter = (dataset, options) => {
+  const { document } = dataset;
+  let value = isPlainObject(document)
+    ? document
+    : tablesDocument(dataset, options);
+  if (Array.isArray(value)) value = { [dataset.tables[0].name]: value };
+
+  return {
+    data: stringify(tomlValue(value)),
+    extension: 'toml',
+    contentType: 'application/toml',
+  };
+};
+
+registerFormat({ name: 'toml', read: readToml, write: writeToml });
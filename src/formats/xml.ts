@@ -0,0 +1,178 @@
+import { create } from 'xmlbuilder2';
+import { valueText } from '../infer';
+import { registerFormat } from '../registry';
+import { createTable } from '../table';
+import { FormatReader, FormatWriter, Table } from '../types';
+
+// Function to sanitize JSON keys for XML element names
+export const sanitizeKey = (key: string): string => {
+  return key.replace(/^[^a-zA-Z_]+|[^a-zA-Z0-9_\-:.]/g, '_');
+};
+
+const elementChildren = (element: any): any[] =>
+  Array.from(element.childNodes).filter((node: any) => node.nodeType === 1);
+
+const elementText = (element: any): string =>
+  Array.from(element.childNodes)
+    .filter((node: any) => node.nodeType === 3 || node.nodeType === 4)
+    .map((node: any) => node.data)
+    .join('')
+    .trim();
+
+// Convert an element to a plain value: leaf elements become their text,
+// anything with attributes or children becomes an object
+const xmlElementToValue = (element: any): any => {
+  const children = elementChildren(element);
+  const attributes: any[] = Array.from(element.attributes);
+  if (!children.length && !attributes.length) return elementText(element);
+
+  const value: { [key: string]: any } = {};
+  const childNames = children.map((child) => child.tagName);
+  attributes.forEach((attribute) => {
+    // Prefix attributes that clash with a child element of the same name
+    const key = childNames.includes(attribute.name)
+      ? `@${attribute.name}`
+      : attribute.name;
+    value[key] = attribute.value;
+  });
+  children.forEach((child) => {
+    const childValue = xmlElementToValue(child);
+    if (!(child.tagName in value)) {
+      value[child.tagName] = childValue;
+    } else if (Array.isArray(value[child.tagName])) {
+      value[child.tagName].push(childValue);
+    } else {
+      value[child.tagName] = [value[child.tagName], childValue];
+    }
+  });
+
+  const text = elementText(element);
+  if (text) value['#text'] = text;
+
+  return value;
+};
+
+// An element whose children all repeat the same record-like element
+const isXmlCollection = (element: any): boolean => {
+  const children = elementChildren(element);
+  if (!children.length) return false;
+
+  const tagName = children[0].tagName;
+  if (!children.every((child) => child.tagName === tagName)) return false;
+
+  return (
+    children.length > 1 ||
+    elementChildren(children[0]).length > 0 ||
+    children[0].attributes.length > 0
+  );
+};
+
+// Detect repeated elements and turn each group into a table of rows
+export const parseXmlTables = (xmlData: string): Table[] => {
+  const root: any = create(xmlData).root().node;
+  const tables: Table[] = [];
+
+  const addTable = (name: string, records: any[]) => {
+    tables.push(createTable(name, records.map(xmlElementToValue)));
+  };
+
+  const visit = (element: any, name: string) => {
+    const children = elementChildren(element);
+
+    if (isXmlCollection(element)) {
+      // <workbook><sheet name="..."><row> - every child is itself a table
+      if (children.every((child) => isXmlCollection(child))) {
+        children.forEach((child, index) => {
+          const childName =
+            child.getAttribute('name') ||
+            (children.length > 1
+              ? `${child.tagName}${index + 1}`
+              : child.tagName);
+          visit(child, childName);
+        });
+      } else {
+        addTable(name, children);
+      }
+      return;
+    }
+
+    // Mixed children: repeated tags are tables, single ones are searched
+    const groups = new Map<string, any[]>();
+    children.forEach((child) => {
+      groups.set(child.tagName, [...(groups.get(child.tagName) || []), child]);
+    });
+    groups.forEach((members, tagName) => {
+      if (members.length > 1) addTable(tagName, members);
+      else if (elementChildren(members[0]).length) visit(members[0], tagName);
+    });
+  };
+
+  visit(root, root.tagName);
+
+  // Nothing repeats, treat the whole document as a single record
+  if (!tables.length) addTable(root.tagName, [root]);
+
+  return tables;
+};
+
+export const readXml: FormatReader = (input) => ({
+  tables: parseXmlTables(input.toString('utf8')),
+  multiTable: true,
+});
+
+// Arrays repeat their key, one element per item: scalars as text, null as
+// an empty element and nested arrays wrapped in <item> elements
+const buildElement = (parent: any, key: string, value: any) => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => {
+      if (item === null || item === undefined) parent.ele(key);
+      else if (Array.isArray(item)) buildXML({ item }, parent.ele(key));
+      else buildElement(parent, key, item);
+    });
+  } else if (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Date)
+  ) {
+    buildXML(value, parent.ele(key));
+  } else {
+    parent.ele(key).txt(value === null ? '' : valueText(value));
+  }
+};
+
+const buildXML = (obj: any, parent: any) => {
+  Object.keys(obj).forEach((key) => {
+    buildElement(parent, sanitizeKey(key), obj[key]);
+  });
+};
+
+// Nested documents are walked as-is, multi-table sources become
+// <workbook><sheet><row> and a single table becomes <name><item>
+export const writeXml: FormatWriter = (dataset) => {
+  const { document, tables } = dataset;
+  let xml;
+
+  if (document !== undefined) {
+    xml = create({ version: '1.0' }).ele('root');
+    buildXML(Array.isArray(document) ? { item: document } : document, xml);
+  } else if (dataset.multiTable || tables.length !== 1) {
+    xml = create({ version: '1.0', encoding: 'UTF-8' }).ele('workbook');
+    tables.forEach((table) => {
+      const sheet = xml!.ele('sheet', { name: table.name });
+      table.rows.forEach((row) => buildXML(row, sheet.ele('row')));
+    });
+  } else {
+    xml = create({ version: '1.0', encoding: 'UTF-8' }).ele(
+      sanitizeKey(tables[0].name)
+    );
+    tables[0].rows.forEach((row) => buildXML(row, xml!.ele('item')));
+  }
+
+  return {
+    data: xml.end({ prettyPrint: true }),
+    extension: 'xml',
+    contentType: 'application/xml',
+  };
+};
+
+registerFormat({ name: 'xml', read: readXml, write: writeXml });
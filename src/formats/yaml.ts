@@ -0,0 +1,43 @@
+import { parseAllDocuments, stringify } from 'yaml';
+import { registerFormat } from '../registry';
+import { FormatReader, FormatWriter } from '../types';
+import { readDocument, tablesDocument } from './json';
+
+// A single document is read like JSON. The documents of a multi-document
+// stream (separated by ---) are rows, or add their rows when they are lists.
+export const readYaml: FormatReader = (input, options) => {
+  const values: any[] = [];
+  for (const document of parseAllDocuments(input.toString('utf8'))) {
+    const [error] = document.errors;
+    if (error) throw new Error(error.message.split('\n')[0].replace(/:$/, ''));
+    const value = document.toJS();
+    if (value !== null && value !== undefined) values.push(value);
+  }
+
+  const document =
+    values.length === 1
+      ? values[0]
+      : values.reduce((rows: any[], value) => rows.concat(value), []);
+  return readDocument(document, options);
+};
+
+// The document of JSON, YAML or TOML input as it is, otherwise the rows laid
+// out as for JSON output. Objects and arrays become nested mappings and
+// sequences.
+export const writeYaml: FormatWriter = (dataset, options) => ({
+  data: stringify(
+    dataset.document !== undefined
+      ? dataset.document
+      : tablesDocument(dataset, options),
+    { aliasDuplicateObjects: false, lineWidth: 0 }
+  ),
+  extension: 'yaml',
+  contentType: 'application/yaml',
+});
+
+registerFormat({
+  name: 'yaml',
+  aliases: ['yml'],
+  read: readYaml,
+  write: writeYaml,
+});
@@ -0,0 +1,27 @@
+// Library entry point: the conversions behind the HTTP routes, for use in
+// other servers, workers and scripts
+export { createApp, AppOptions } from '../app';
+export {
+  convert,
+  streamConvert,
+  ConvertRequest,
+  StreamConversion,
+} from './convert';
+export {
+  exportDatabase,
+  importIntoDatabase,
+  DatabaseRequest,
+  ImportedTable,
+} from './database';
+export { ConversionError } from './errors';
+export { createJobQueue, Job, JobQueue, JobState } from './jobs';
+export { detectFormat, previewFile, Preview } from './preview';
+export { profileFile, profileToWorkbook, Profile } from './profile';
+export {
+  getConnector,
+  getFormat,
+  listFormats,
+  registerConnector,
+  registerFormat,
+} from './registry';
+export * from './types';
@@ -0,0 +1,176 @@
+import { flatRows } from './table';
+import { Row, Table } from './types';
+
+export type ColumnType =
+  | 'integer'
+  | 'decimal'
+  | 'boolean'
+  | 'date'
+  | 'timestamp'
+  | 'string';
+
+export interface ColumnInfo {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+  unique: boolean;
+  // Longest value as text, used for VARCHAR(n)
+  maxLength: number;
+  // Digits before and after the point, used for DECIMAL(p, s)
+  integerDigits: number;
+  scale: number;
+  // Integers outside the 32 bit range need BIGINT
+  big: boolean;
+}
+
+const INTEGER_PATTERN = /^[-+]?(0|[1-9]\d*)$/;
+const DECIMAL_PATTERN = /^[-+]?(0|[1-9]\d*)?\.\d+$|^[-+]?(0|[1-9]\d*)\.\d*$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const INT32_MAX = 2147483647;
+
+export const isEmpty = (value: any) =>
+  value === null || value === undefined || value === '';
+
+// Type of a single value; strings are checked for what they look like
+export const inferValueType = (value: any): ColumnType => {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'bigint') return 'integer';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'decimal';
+  }
+  if (value instanceof Date) {
+    return value.getUTCHours() ||
+      value.getUTCMinutes() ||
+      value.getUTCSeconds() ||
+      value.getUTCMilliseconds()
+      ? 'timestamp'
+      : 'date';
+  }
+  if (typeof value !== 'string') return 'string';
+
+  const text = value.trim();
+  if (INTEGER_PATTERN.test(text)) return 'integer';
+  if (DECIMAL_PATTERN.test(text)) return 'decimal';
+  if (BOOLEAN_PATTERN.test(text)) return 'boolean';
+  if (DATE_PATTERN.test(text) && !isNaN(Date.parse(text))) return 'date';
+  if (TIMESTAMP_PATTERN.test(text) && !isNaN(Date.parse(text))) {
+    return 'timestamp';
+  }
+  return 'string';
+};
+
+// The narrowest type both values fit in
+export const mergeTypes = (a: ColumnType, b: ColumnType): ColumnType => {
+  if (a === b) return a;
+  const pair = [a, b].sort().join(',');
+  if (pair === 'decimal,integer') return 'decimal';
+  if (pair === 'date,timestamp') return 'timestamp';
+  return 'string';
+};
+
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/;
+
+// A date or timestamp as inferred above. Timestamps without an offset are
+// read as UTC, whatever the server's time zone.
+export const parseDate = (text: string) => {
+  const trimmed = text.trim();
+  return TIMESTAMP_PATTERN.test(trimmed) && !OFFSET_PATTERN.test(trimmed)
+    ? new Date(`${trimmed.replace(' ', 'T')}Z`)
+    : new Date(trimmed);
+};
+
+export const valueText = (value: any) =>
+  value instanceof Date ? value.toISOString() : String(value);
+
+export const inferColumn = (name: string, values: any[]): ColumnInfo => {
+  const info: ColumnInfo = {
+    name,
+    type: 'string',
+    nullable: false,
+    unique: true,
+    maxLength: 0,
+    integerDigits: 0,
+    scale: 0,
+    big: false,
+  };
+  const seen = new Set<string>();
+  let type: ColumnType | undefined;
+
+  values.forEach((value) => {
+    if (isEmpty(value)) {
+      info.nullable = true;
+      return;
+    }
+
+    const text = valueText(value);
+    if (seen.has(text)) info.unique = false;
+    seen.add(text);
+    info.maxLength = Math.max(info.maxLength, text.length);
+
+    const valueType = inferValueType(value);
+    type = type ? mergeTypes(type, valueType) : valueType;
+
+    if (valueType === 'integer' || valueType === 'decimal') {
+      const [whole, fraction = ''] = text
+        .trim()
+        .replace(/^[-+]/, '')
+        .split('.');
+      info.integerDigits = Math.max(info.integerDigits, whole.length);
+      info.scale = Math.max(info.scale, fraction.length);
+      if (Math.abs(Number(text)) > INT32_MAX) info.big = true;
+    }
+  });
+
+  info.type = type || 'string';
+  return info;
+};
+
+export const inferColumns = (table: Table): ColumnInfo[] => {
+  const rows: Row[] = flatRows(table);
+  return table.columns.map((column) =>
+    inferColumn(
+      column,
+      rows.map((row) => row[column])
+    )
+  );
+};
+
+// A unique, non-null integer or short string column, preferring one named id
+export const findPrimaryKey = (columns: ColumnInfo[]): string | undefined => {
+  const candidates = columns.filter(
+    (column) =>
+      column.unique &&
+      !column.nullable &&
+      column.maxLength > 0 &&
+      (column.type === 'integer' ||
+        (column.type === 'string' && column.maxLength <= 64))
+  );
+  const named = candidates.find((column) => /^(id|_id)$/i.test(column.name));
+  return (named || candidates.find((column) => column.type === 'integer'))
+    ?.name;
+};
+
+// Convert a raw value to what the column type expects, e.g. '42' -> 42.
+// Values that do not look like the column type are left untouched.
+export const coerceValue = (info: ColumnInfo, value: any): any => {
+  if (isEmpty(value)) return info.type === 'string' ? value : null;
+  if (typeof value !== 'string') return value;
+
+  const text = value.trim();
+  switch (info.type) {
+    case 'integer':
+      if (!INTEGER_PATTERN.test(text)) return value;
+      return Number.isSafeInteger(Number(text)) ? Number(text) : BigInt(text);
+    case 'decimal':
+      return INTEGER_PATTERN.test(text) || DECIMAL_PATTERN.test(text)
+        ? Number(text)
+        : value;
+    case 'boolean':
+      return BOOLEAN_PATTERN.test(text) ? text.toLowerCase() === 'true' : value;
+    default:
+      return value;
+  }
+};
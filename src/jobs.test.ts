@@ -0,0 +1,152 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createJobQueue, JobQueue } from './jobs';
+
+const waitForJob = async (jobs: JobQueue, id: string) => {
+  while (['queued', 'running'].includes(jobs.get(id).state)) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  return jobs.get(id);
+};
+
+describe('createJobQueue', () => {
+  let dir: string;
+  let inputPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-test-'));
+    inputPath = path.join(dir, 'upload.csv');
+    fs.writeFileSync(inputPath, 'id,name\n1,Ada\n2,Bob\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should run a job and keep its output', async () => {
+    const jobs = createJobQueue(path.join(dir, 'jobs'));
+    jobs.start();
+
+    const { id } = jobs.add(inputPath, 'people.csv', 'csv', 'json', {});
+    const job = await waitForJob(jobs, id);
+
+    expect(job.state).toBe('completed');
+    expect(job.progress.rows).toBe(2);
+    expect(JSON.parse(fs.readFileSync(jobs.resultPath(id), 'utf8'))).toEqual([
+      { id: '1', name: 'Ada' },
+      { id: '2', name: 'Bob' },
+    ]);
+  });
+
+  it('should run jobs left running by a previous process again', async () => {
+    const first = createJobQueue(path.join(dir, 'jobs'));
+    const { id } = first.add(inputPath, 'people.csv', 'csv', 'sql', {});
+    await waitForJob(first, id);
+
+    // Simulate a process that stopped halfway through the job
+    const jobFile = path.join(dir, 'jobs', id, 'job.json');
+    const saved = JSON.parse(fs.readFileSync(jobFile, 'utf8'));
+    fs.writeFileSync(jobFile, JSON.stringify({ ...saved, state: 'running' }));
+
+    const second = createJobQueue(path.join(dir, 'jobs'));
+    second.start();
+
+    expect((await waitForJob(second, id)).state).toBe('completed');
+  });
+
+  it('should skip corrupt job files when starting', async () => {
+    const first = createJobQueue(path.join(dir, 'jobs'));
+    const { id } = first.add(inputPath, 'people.csv', 'csv', 'json', {});
+    await waitForJob(first, id);
+    fs.mkdirSync(path.join(dir, 'jobs', 'broken'));
+    fs.writeFileSync(path.join(dir, 'jobs', 'broken', 'job.json'), '{"id":');
+
+    const second = createJobQueue(path.join(dir, 'jobs'));
+    second.start();
+
+    expect(second.get(id).state).toBe('completed');
+    expect(() => second.get('broken')).toThrow('Job not found.');
+  });
+
+  it('should not complete a job cancelled after its last row', async () => {
+    const jobs = createJobQueue(path.join(dir, 'jobs'));
+    const writeFileSync = fs.writeFileSync;
+    // Cancel while the output is written, once every row has been read
+    const spy = jest
+      .spyOn(fs, 'writeFileSync')
+      .mockImplementation((file, ...args) => {
+        if (String(file).includes('output.')) jobs.cancel(id);
+        return writeFileSync(file, ...args);
+      });
+    const { id } = jobs.add(inputPath, 'people.csv', 'csv', 'json', {});
+
+    try {
+      expect((await waitForJob(jobs, id)).state).toBe('cancelled');
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('should report the rows read before writing the output', async () => {
+    const jobs = createJobQueue(path.join(dir, 'jobs'));
+    const writeFileSync = fs.writeFileSync;
+    let rows: number | undefined;
+    const spy = jest
+      .spyOn(fs, 'writeFileSync')
+      .mockImplementation((file, ...args) => {
+        if (String(file).includes('output.')) rows = jobs.get(id).progress.rows;
+        return writeFileSync(file, ...args);
+      });
+    const { id } = jobs.add(inputPath, 'people.csv', 'csv', 'json', {});
+
+    try {
+      await waitForJob(jobs, id);
+      expect(rows).toBe(2);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('should report a running job as cancelled right away', async () => {
+    const jobs = createJobQueue(path.join(dir, 'jobs'));
+    const { id } = jobs.add(inputPath, 'people.csv', 'csv', 'json', {});
+
+    expect(jobs.get(id).state).toBe('running');
+    expect(jobs.cancel(id).state).toBe('cancelled');
+    // The conversion itself stops at its next check
+    while (!jobs.get(id).error) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(jobs.get(id)).toMatchObject({
+      state: 'cancelled',
+      error: 'Conversion cancelled.',
+    });
+  });
+
+  it('should sweep finished jobs older than the ttl', async () => {
+    const jobs = createJobQueue(path.join(dir, 'jobs'), 60 * 1000);
+    const old = jobs.add(inputPath, 'a.csv', 'csv', 'json', {});
+    await waitForJob(jobs, old.id);
+    const recent = jobs.add(inputPath, 'b.csv', 'csv', 'json', {});
+    await waitForJob(jobs, recent.id);
+    old.updatedAt = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+    jobs.sweep();
+    expect(() => jobs.get(old.id)).toThrow('Job not found.');
+    expect(fs.existsSync(path.join(dir, 'jobs', old.id))).toBe(false);
+    expect(jobs.get(recent.id).state).toBe('completed');
+  });
+
+  it('should cancel queued jobs and delete finished ones', async () => {
+    const jobs = createJobQueue(path.join(dir, 'jobs'));
+    const running = jobs.add(inputPath, 'a.csv', 'csv', 'json', {});
+    const queued = jobs.add(inputPath, 'b.csv', 'csv', 'json', {});
+
+    expect(jobs.cancel(queued.id).state).toBe('cancelled');
+    await waitForJob(jobs, running.id);
+
+    jobs.cancel(running.id);
+    expect(() => jobs.get(running.id)).toThrow('Job not found.');
+  });
+});
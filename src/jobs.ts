@@ -0,0 +1,254 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { finished } from 'stream/promises';
+import { convert, ConvertRequest, streamConvert } from './convert';
+import { ConversionError } from './errors';
+
+export type JobState =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface Job {
+  id: string;
+  state: JobState;
+  from: string;
+  to: string;
+  // Original upload name, used for the result file name
+  originalName: string;
+  options: { [key: string]: any };
+  progress: { rows: number };
+  extension?: string;
+  contentType?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const FINISHED_STATES: JobState[] = ['completed', 'failed', 'cancelled'];
+
+export const DEFAULT_JOB_TTL = 24 * 60 * 60 * 1000;
+
+const MIN_SWEEP_INTERVAL = 60 * 1000;
+
+// Queue of conversion jobs kept on disk, one directory per job holding
+// job.json, the uploaded input and the output. Jobs run one at a time, and
+// jobs that were queued or running when the process stopped run again.
+// Finished jobs are removed by the sweeper once they are older than ttl (ms).
+export const createJobQueue = (dir: string, ttl = DEFAULT_JOB_TTL) => {
+  const jobs = new Map<string, Job>();
+  const controllers = new Map<string, AbortController>();
+  let running = false;
+
+  const jobDir = (id: string) => path.join(dir, id);
+  const inputPath = (id: string) => path.join(jobDir(id), 'input');
+  const outputPath = (job: Job) =>
+    path.join(jobDir(job.id), `output.${job.extension}`);
+
+  // Written to a temporary file first, so a crash halfway through a save
+  // leaves the previous job.json in place
+  const save = (job: Job) => {
+    job.updatedAt = new Date().toISOString();
+    const file = path.join(jobDir(job.id), 'job.json');
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(job, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  };
+
+  // A saved job, or undefined when its file cannot be read
+  const loadJob = (file: string): Job | undefined => {
+    try {
+      const job = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return typeof job?.id === 'string' ? job : undefined;
+    } catch (e) {
+      return undefined;
+    }
+  };
+
+  const runJob = async (job: Job) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    job.state = 'running';
+    job.progress.rows = 0;
+    delete job.error;
+    save(job);
+
+    const options: ConvertRequest = {
+      ...job.options,
+      from: job.from,
+      to: job.to,
+      fileName: path.parse(job.originalName).name,
+      signal: controller.signal,
+      onProgress: (rows) => {
+        job.progress.rows = rows;
+        save(job);
+      },
+    };
+
+    try {
+      if (String(job.options.stream) === 'true') {
+        const conversion = streamConvert(options);
+        job.extension = conversion.extension;
+        job.contentType = conversion.contentType;
+        const output = fs.createWriteStream(outputPath(job));
+        try {
+          await conversion.run(fs.createReadStream(inputPath(job.id)), output);
+        } finally {
+          output.end();
+        }
+        await finished(output);
+      } else {
+        const result = await convert(
+          fs.readFileSync(inputPath(job.id)),
+          options
+        );
+        job.extension = result.extension;
+        job.contentType = result.contentType;
+        fs.writeFileSync(outputPath(job), result.data);
+      }
+      // Cancelled after the last row was read
+      if (controller.signal.aborted) {
+        throw new ConversionError('Conversion cancelled.', 409);
+      }
+      job.state = 'completed';
+    } catch (e: any) {
+      job.state = controller.signal.aborted ? 'cancelled' : 'failed';
+      job.error = e.message;
+    } finally {
+      controllers.delete(job.id);
+    }
+    save(job);
+  };
+
+  // Work through queued jobs in the order they were created
+  const processQueue = async () => {
+    if (running) return;
+    running = true;
+    try {
+      let job: Job | undefined;
+      while (
+        (job = Array.from(jobs.values())
+          .filter((item) => item.state === 'queued')
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0])
+      ) {
+        await runJob(job);
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const getJob = (id: string) => {
+    const job = jobs.get(id);
+    if (!job) throw new ConversionError('Job not found.', 404);
+    return job;
+  };
+
+  const removeJob = (id: string) => {
+    jobs.delete(id);
+    fs.rmSync(jobDir(id), { recursive: true, force: true });
+  };
+
+  // Remove finished jobs, and their files, that have not changed for ttl
+  const sweep = () => {
+    const now = Date.now();
+    jobs.forEach((job) => {
+      if (
+        FINISHED_STATES.includes(job.state) &&
+        !controllers.has(job.id) &&
+        now - Date.parse(job.updatedAt) > ttl
+      ) {
+        removeJob(job.id);
+      }
+    });
+  };
+
+  return {
+    // Load jobs saved by a previous run and resume the queue
+    start: () => {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.readdirSync(dir).forEach((id) => {
+        const file = path.join(jobDir(id), 'job.json');
+        if (!fs.existsSync(file)) return;
+
+        const job = loadJob(file);
+        if (!job) {
+          console.error(`Skipping job ${id}, its job.json is corrupt`);
+          return;
+        }
+        if (job.state === 'running') {
+          job.state = 'queued';
+          save(job);
+        }
+        jobs.set(job.id, job);
+      });
+      processQueue();
+    },
+
+    add: (
+      filePath: string,
+      originalName: string,
+      from: string,
+      to: string,
+      options: { [key: string]: any }
+    ): Job => {
+      const now = new Date().toISOString();
+      const job: Job = {
+        id: randomUUID(),
+        state: 'queued',
+        from,
+        to,
+        originalName,
+        options,
+        progress: { rows: 0 },
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      fs.mkdirSync(jobDir(job.id), { recursive: true });
+      fs.copyFileSync(filePath, inputPath(job.id));
+      save(job);
+      jobs.set(job.id, job);
+      processQueue();
+      return job;
+    },
+
+    get: getJob,
+
+    // Path of the output of a completed job
+    resultPath: (id: string) => {
+      const job = getJob(id);
+      if (job.state !== 'completed') {
+        throw new ConversionError(`Job is ${job.state}, not completed.`, 409);
+      }
+      return outputPath(job);
+    },
+
+    // Queued and running jobs are cancelled, finished jobs are removed. A
+    // running job is reported as cancelled right away and stops at the next
+    // row, or once its output is written.
+    cancel: (id: string): Job => {
+      const job = getJob(id);
+      if (controllers.has(id)) {
+        controllers.get(id)!.abort();
+        job.state = 'cancelled';
+        save(job);
+      } else if (FINISHED_STATES.includes(job.state)) {
+        removeJob(id);
+      } else {
+        job.state = 'cancelled';
+        save(job);
+      }
+      return job;
+    },
+
+    sweep,
+
+    startSweeper: () =>
+      setInterval(sweep, Math.max(ttl / 2, MIN_SWEEP_INTERVAL)).unref(),
+  };
+};
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
@@ -0,0 +1,129 @@
+import { Readable, Writable } from 'stream';
+import xlsx from 'xlsx';
+import { convert, streamConvert } from './convert';
+import { ConversionError } from './errors';
+import { parseMapping } from './mapping';
+
+const csv = 'First Name,Age,Price,Qty,internal\n ada ,36,2.5,4,x\nbob,,1,2,y\n';
+
+const toJson = async (mapping: any, input = csv) =>
+  JSON.parse(
+    (
+      await convert(Buffer.from(input), {
+        from: 'csv',
+        to: 'json',
+        fileName: 'people',
+        mapping,
+      })
+    ).data.toString()
+  );
+
+describe('column mapping', () => {
+  it('should rename, cast, default, trim and case columns in place', async () => {
+    expect(
+      await toJson({
+        names: 'snake',
+        columns: {
+          'First Name': { to: 'name', trim: true, case: 'title' },
+          Age: { type: 'integer', default: 0 },
+          internal: false,
+          total: { expr: 'price * qty' },
+        },
+      })
+    ).toEqual([
+      { name: 'Ada', age: 36, price: '2.5', qty: '4', total: 10 },
+      { name: 'Bob', age: 0, price: '1', qty: '2', total: 2 },
+    ]);
+  });
+
+  it('should reorder and drop unmapped columns with a list', async () => {
+    expect(
+      await toJson({
+        columns: [{ from: 'Qty', type: 'number' }, 'Price'],
+        unmapped: 'drop',
+      })
+    ).toEqual([
+      { Qty: 4, Price: '2.5' },
+      { Qty: 2, Price: '1' },
+    ]);
+  });
+
+  it('should rename tables and map each one', async () => {
+    const workbook = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(
+      workbook,
+      xlsx.utils.aoa_to_sheet([
+        ['Id', 'Name'],
+        [1, 'Ada'],
+      ]),
+      'Sheet1'
+    );
+    xlsx.utils.book_append_sheet(
+      workbook,
+      xlsx.utils.aoa_to_sheet([['Id'], [2]]),
+      'Sheet2'
+    );
+
+    const result = await convert(
+      xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' }),
+      {
+        from: 'excel',
+        to: 'sql',
+        fileName: 'book',
+        mapping: {
+          names: 'lower',
+          tables: {
+            Sheet1: { name: 'customers', drop: ['Name'] },
+            Sheet2: 'orders',
+          },
+        },
+      }
+    );
+
+    const sql = result.data.toString();
+    expect(sql).toContain('CREATE TABLE `customers` (\n  `id` INT');
+    expect(sql).not.toContain('`name`');
+    expect(sql).toContain('INSERT INTO `orders` (`id`) VALUES (2);');
+  });
+
+  it('should map streamed rows', async () => {
+    const conversion = streamConvert({
+      from: 'csv',
+      to: 'csv',
+      fileName: 'people',
+      mapping: { columns: ['Age', 'First Name'], unmapped: 'drop' },
+    });
+    let output = '';
+    await conversion.run(
+      Readable.from([csv]),
+      new Writable({
+        write(chunk, encoding, callback) {
+          output += chunk;
+          callback();
+        },
+      })
+    );
+
+    expect(output).toBe('Age,First Name\n36, ada \n,bob\n');
+  });
+
+  it('should report values that cannot be cast', async () => {
+    const error = await toJson({ columns: { internal: { type: 'integer' } } })
+      .then(() => undefined)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConversionError);
+    expect(error.message).toBe(
+      'Cannot convert "x" to integer in column "internal" (people row 1).'
+    );
+  });
+
+  it('should reject invalid specs before reading', () => {
+    expect(() => parseMapping('{"columns": [{"type": "integer"}]}')).toThrow(
+      'Every mapping column needs a "from" or "to" name'
+    );
+    expect(() => parseMapping({ names: 'kebab' })).toThrow(
+      'Unsupported names "kebab" in mapping. Expected one of snake, camel, lower, upper.'
+    );
+  });
+});
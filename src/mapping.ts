@@ -0,0 +1,357 @@
+import { ConversionError } from './errors';
+import { compileExpression, Evaluator } from './expression';
+import { isEmpty, valueText } from './infer';
+import { parseObjectOption } from './options';
+import { createTable, flattenRow } from './table';
+import { Dataset, Row, StreamSource } from './types';
+
+export type CastType = 'string' | 'integer' | 'number' | 'boolean' | 'date';
+
+// Case of values, and of column names
+export type ValueCase = 'upper' | 'lower' | 'title';
+export type NameCase = 'snake' | 'camel' | 'lower' | 'upper';
+
+// One output column, copied from a source column or computed
+export interface ColumnMapping {
+  // Source column, defaults to `to`
+  from?: string;
+  // Output name, defaults to `from`
+  to?: string;
+  // Expression over the source columns and the columns mapped before it,
+  // e.g. price * quantity
+  expr?: string;
+  // Applied in this order: trim, default, case, type
+  trim?: boolean;
+  // Used when the value is empty or missing
+  default?: any;
+  case?: ValueCase;
+  type?: CastType;
+}
+
+export interface TableMapping {
+  // New table name, which is also the sheet, SQL table or XML element
+  name?: string;
+  // A list sets the column order. An object keeps the source order and maps
+  // each source column to a new name, a rule, or false to drop it.
+  columns?:
+    | (ColumnMapping | string)[]
+    | { [from: string]: ColumnMapping | string | false };
+  drop?: string[];
+  // Columns the mapping does not mention are kept unless this is 'drop'
+  unmapped?: 'keep' | 'drop';
+  // Case of every output name that is not set explicitly
+  names?: NameCase;
+}
+
+// Applies to every table, with per-table overrides or new names in tables
+export interface MappingSpec extends TableMapping {
+  tables?: { [table: string]: string | TableMapping };
+}
+
+const CAST_TYPES: CastType[] = [
+  'string',
+  'integer',
+  'number',
+  'boolean',
+  'date',
+];
+const VALUE_CASES: ValueCase[] = ['upper', 'lower', 'title'];
+const NAME_CASES: NameCase[] = ['snake', 'camel', 'lower', 'upper'];
+
+const BOOLEANS: { [text: string]: boolean } = {
+  true: true,
+  false: false,
+  yes: true,
+  no: false,
+  '1': true,
+  '0': false,
+};
+
+const words = (name: string) =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+
+const capitalize = (word: string) =>
+  word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+const convertName = (name: string, names?: NameCase) => {
+  switch (names) {
+    case 'snake':
+      return words(name).join('_').toLowerCase() || name;
+    case 'camel':
+      return (
+        words(name)
+          .map((word, i) => (i ? capitalize(word) : word.toLowerCase()))
+          .join('') || name
+      );
+    case 'lower':
+      return name.toLowerCase();
+    case 'upper':
+      return name.toUpperCase();
+    default:
+      return name;
+  }
+};
+
+const convertCase = (text: string, mode: ValueCase) => {
+  if (mode === 'upper') return text.toUpperCase();
+  if (mode === 'lower') return text.toLowerCase();
+  return text
+    .toLowerCase()
+    .replace(/(^|[^A-Za-z0-9'])([a-z])/g, (match) => match.toUpperCase());
+};
+
+// The value as the given type, or undefined when it does not convert
+const castValue = (value: any, type: CastType): any => {
+  if (isEmpty(value)) return null;
+  const text = valueText(value).trim();
+  switch (type) {
+    case 'string':
+      return valueText(value);
+    case 'integer': {
+      const number = typeof value === 'number' ? value : Number(text);
+      return Number.isInteger(number) ? number : undefined;
+    }
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(text);
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : BOOLEANS[text.toLowerCase()];
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(text);
+      return isNaN(date.getTime()) ? undefined : date;
+    }
+  }
+};
+
+const checkChoice = (value: any, choices: string[], name: string) => {
+  if (value !== undefined && !choices.includes(value)) {
+    throw new ConversionError(
+      `Unsupported ${name} "${value}" in mapping. Expected one of ${choices.join(
+        ', '
+      )}.`
+    );
+  }
+};
+
+interface CompiledColumn {
+  from?: string;
+  to: string;
+  // Source column whose place the output column takes
+  source?: string;
+  value?: Evaluator;
+  rule: ColumnMapping;
+}
+
+const compileColumn = (
+  rule: ColumnMapping,
+  names?: NameCase,
+  source?: string
+): CompiledColumn => {
+  if (typeof rule !== 'object' || rule === null) {
+    throw new ConversionError(
+      'Invalid mapping column, expected a name or an object of rules.'
+    );
+  }
+  const from = rule.expr ? undefined : rule.from ?? rule.to;
+  const to =
+    rule.to ?? (from === undefined ? undefined : convertName(from, names));
+  if (to === undefined) {
+    throw new ConversionError(
+      'Every mapping column needs a "from" or "to" name, computed columns a "to".'
+    );
+  }
+  checkChoice(rule.type, CAST_TYPES, 'type');
+  checkChoice(rule.case, VALUE_CASES, 'case');
+
+  return {
+    from,
+    to,
+    source: source ?? from,
+    value: rule.expr ? compileExpression(String(rule.expr)) : undefined,
+    rule,
+  };
+};
+
+// Maps the rows of one table, given their 1-based row numbers for errors
+export interface TableMapper {
+  name: string;
+  map: (row: Row, rowNumber: number) => Row;
+}
+
+const compileTable = (spec: TableMapping, table: string): TableMapper => {
+  checkChoice(spec.unmapped, ['keep', 'drop'], 'unmapped');
+  checkChoice(spec.names, NAME_CASES, 'names');
+
+  const drop = new Set(spec.drop || []);
+  const inPlace = !Array.isArray(spec.columns);
+  let columns: CompiledColumn[];
+  if (Array.isArray(spec.columns)) {
+    columns = spec.columns.map((rule) =>
+      compileColumn(
+        typeof rule === 'string' ? { from: rule } : rule,
+        spec.names
+      )
+    );
+  } else {
+    const map = spec.columns || {};
+    columns = [];
+    Object.keys(map).forEach((from) => {
+      const rule = map[from];
+      if (rule === false) drop.add(from);
+      else {
+        // The key names the source column, or the output of an expression
+        const mapping = typeof rule === 'string' ? { to: rule } : rule;
+        columns.push(
+          compileColumn(
+            mapping.expr ? { to: from, ...mapping } : { ...mapping, from },
+            spec.names,
+            from
+          )
+        );
+      }
+    });
+  }
+  const bySource = new Map<string, CompiledColumn>();
+  columns.forEach((column) => {
+    if (column.source !== undefined) bySource.set(column.source, column);
+  });
+
+  const mapValue = (
+    column: CompiledColumn,
+    context: Row,
+    rowNumber: number
+  ) => {
+    const { rule } = column;
+    let value = column.value ? column.value(context) : context[column.from!];
+    if (rule.trim && typeof value === 'string') value = value.trim();
+    if (isEmpty(value) && rule.default !== undefined) value = rule.default;
+    if (rule.case && !isEmpty(value)) {
+      value = convertCase(valueText(value), rule.case);
+    }
+    if (rule.type) {
+      const cast = castValue(value, rule.type);
+      if (cast === undefined) {
+        throw new ConversionError(
+          `Cannot convert ${JSON.stringify(value)} to ${rule.type} in column "${
+            column.to
+          }" (${table} row ${rowNumber}).`,
+          422
+        );
+      }
+      value = cast;
+    }
+    return value ?? null;
+  };
+
+  return {
+    name: spec.name ?? table,
+    map: (row, rowNumber) => {
+      // Expressions see the source columns, also under their converted
+      // names, and the columns mapped so far
+      const context: Row = flattenRow(row);
+      const source = Object.keys(context);
+      if (spec.names) {
+        source.forEach((key) => {
+          const name = convertName(key, spec.names);
+          if (!(name in context)) context[name] = context[key];
+        });
+      }
+      const output: Row = {};
+      const added = new Set<CompiledColumn>();
+      const add = (column: CompiledColumn) => {
+        added.add(column);
+        output[column.to] = mapValue(column, context, rowNumber);
+        context[column.to] = output[column.to];
+      };
+
+      if (inPlace) {
+        source.forEach((key) => {
+          const column = bySource.get(key);
+          if (column) add(column);
+          else if (!drop.has(key) && spec.unmapped !== 'drop') {
+            output[convertName(key, spec.names)] = context[key];
+          }
+        });
+        // Computed columns, and mapped columns missing from this row
+        columns.filter((column) => !added.has(column)).forEach(add);
+      } else {
+        columns.forEach(add);
+        if (spec.unmapped !== 'drop') {
+          source.forEach((key) => {
+            if (!bySource.has(key) && !drop.has(key)) {
+              output[convertName(key, spec.names)] = context[key];
+            }
+          });
+        }
+      }
+      return output;
+    },
+  };
+};
+
+// A parsed options.mapping, giving the mapper of each table by its name
+export type Mapping = (table: string) => TableMapper;
+
+export const parseMapping = (value: any): Mapping | undefined => {
+  const spec: MappingSpec = parseObjectOption(value, 'mapping');
+  if (spec === undefined) return undefined;
+  if (typeof spec !== 'object' || spec === null || Array.isArray(spec)) {
+    throw new ConversionError('The "mapping" option must be a JSON object.');
+  }
+
+  const { tables = {}, ...common } = spec;
+  const specFor = (table: string): TableMapping => {
+    const override = tables[table];
+    if (typeof override === 'string') return { ...common, name: override };
+    return { ...common, ...override };
+  };
+
+  // Compile every table up front so mistakes surface before reading
+  const mappers = new Map<string, TableMapper>();
+  Object.keys(tables).forEach((table) => {
+    mappers.set(table, compileTable(specFor(table), table));
+  });
+  compileTable(common, '');
+
+  return (table) => {
+    if (!mappers.has(table)) {
+      mappers.set(table, compileTable(specFor(table), table));
+    }
+    return mappers.get(table)!;
+  };
+};
+
+// Rows are flattened by the mapping, so the nested document is dropped
+export const mapDataset = (dataset: Dataset, mapping: Mapping): Dataset => {
+  const { document, ...rest } = dataset;
+  return {
+    ...rest,
+    tables: dataset.tables.map((table) => {
+      const mapper = mapping(table.name);
+      return createTable(
+        mapper.name,
+        table.rows.map((row, i) => mapper.map(row, i + 1))
+      );
+    }),
+  };
+};
+
+export const mapRecords = (
+  source: StreamSource,
+  mapping: Mapping
+): StreamSource => ({
+  ...source,
+  records: (async function* () {
+    const rowNumbers = new Map<string, number>();
+    for await (const { table, row } of source.records) {
+      const rowNumber = (rowNumbers.get(table) || 0) + 1;
+      rowNumbers.set(table, rowNumber);
+      const mapper = mapping(table);
+      yield { table: mapper.name, row: mapper.map(row, rowNumber) };
+    }
+  })(),
+});
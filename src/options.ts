@@ -0,0 +1,44 @@
+import { ConversionError } from './errors';
+
+// Options arrive as query strings or multipart fields, so objects may be
+// sent either as JSON text or already parsed (columnTypes[age]=INT)
+export const parseObjectOption = (value: any, name: string): any => {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return value;
+
+  try {
+    return JSON.parse(value);
+  } catch (e: any) {
+    throw new ConversionError(`Invalid JSON in "${name}" option. ${e.message}`);
+  }
+};
+
+// Lists may be sent as JSON arrays, comma separated text or repeated fields
+export const parseListOption = (
+  value: any,
+  name: string
+): string[] | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (Array.isArray(value)) return value.map(String);
+  const text = String(value).trim();
+  if (text.startsWith('[')) {
+    const list = parseObjectOption(text, name);
+    if (Array.isArray(list)) return list.map(String);
+  }
+  return text.split(',').map((item) => item.trim());
+};
+
+export const parseIntegerOption = (
+  value: any,
+  name: string,
+  min = 0
+): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new ConversionError(
+      `The "${name}" option must be a whole number of at least ${min}.`
+    );
+  }
+  return number;
+};
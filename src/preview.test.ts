@@ -0,0 +1,60 @@
+import AdmZip from 'adm-zip';
+import xlsx from 'xlsx';
+import { detectFormat, previewFile } from './preview';
+
+describe('preview', () => {
+  it('should detect the format from the name, then the content', () => {
+    const csvZip = new AdmZip();
+    csvZip.addFile('a.csv', Buffer.from('x\n1'));
+
+    expect(detectFormat(Buffer.from('[]'), 'report.xlsx')).toBe('excel');
+    expect(detectFormat(Buffer.from('\uFEFF  {"a": 1}'))).toBe('json');
+    expect(detectFormat(Buffer.from('<rows/>'))).toBe('xml');
+    expect(detectFormat(Buffer.from('-- dump\nINSERT INTO t'))).toBe('sql');
+    expect(detectFormat(csvZip.toBuffer())).toBe('csv');
+    expect(detectFormat(Buffer.from('a,b\n1,2'))).toBe('csv');
+  });
+
+  it('should list every sheet and preview the selected ones', async () => {
+    const workbook = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(
+      workbook,
+      xlsx.utils.aoa_to_sheet([['title'], ['notes']]),
+      'Cover'
+    );
+    xlsx.utils.book_append_sheet(
+      workbook,
+      xlsx.utils.aoa_to_sheet([
+        ['id', 'price', 'paid'],
+        [1, 2.5, true],
+        [2, 3, false],
+      ]),
+      'Orders'
+    );
+    const input = xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    const preview = await previewFile(input, {
+      fileName: 'book',
+      sheets: 'Orders',
+      limit: '5',
+    });
+
+    expect(preview.format).toBe('excel');
+    expect(preview.sheets).toEqual(['Cover', 'Orders']);
+    expect(preview.tables).toEqual([
+      {
+        name: 'Orders',
+        columns: [
+          { name: 'id', type: 'integer', nullable: false },
+          { name: 'price', type: 'decimal', nullable: false },
+          { name: 'paid', type: 'boolean', nullable: false },
+        ],
+        rowCount: 2,
+        rows: [
+          { id: 1, price: 2.5, paid: true },
+          { id: 2, price: 3, paid: false },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import AdmZip from 'adm-zip';
+import path from 'path';
+import xlsx from 'xlsx';
+import { readDataset } from './convert';
+import { ConversionError } from './errors';
+import { isArrow } from './formats/arrow';
+import { isZip } from './formats/csv';
+import { resolveCsvDialect } from './formats/csv-dialect';
+import { isParquet } from './formats/parquet';
+import { isSqlite } from './formats/sqlite';
+import { ColumnType, inferColumns } from './infer';
+import { parseIntegerOption } from './options';
+import { getFormat } from './registry';
+import { ConvertOptions, Row } from './types';
+
+const DEFAULT_PREVIEW_ROWS = 10;
+
+export interface ColumnPreview {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+}
+
+export interface TablePreview {
+  name: string;
+  columns: ColumnPreview[];
+  rowCount: number;
+  // The first options.limit rows
+  rows: Row[];
+}
+
+export interface Preview {
+  format: string;
+  // CSV only
+  encoding?: string;
+  delimiter?: string;
+  // Excel only, every sheet of the workbook including hidden ones
+  sheets?: string[];
+  tables: TablePreview[];
+}
+
+// Old .xls workbooks are OLE2 compound files
+const isOle2 = (input: Buffer) =>
+  input.length > 8 && input.readUInt32BE(0) === 0xd0cf11e0;
+
+// The format of an upload without a "from" option: the file extension when
+// it is known, otherwise the content. Zips are workbooks unless they only
+// hold CSV files.
+export const detectFormat = (input: Buffer, fileName = ''): string => {
+  const byExtension = getFormat(path.extname(fileName).slice(1));
+  if (byExtension) return byExtension.name;
+
+  if (isSqlite(input)) return 'sqlite';
+  if (isParquet(input)) return 'parquet';
+  if (isArrow(input)) return 'arrow';
+  if (isOle2(input)) return 'excel';
+  if (isZip(input)) {
+    const entries = new AdmZip(input).getEntries();
+    const csvOnly =
+      entries.length > 0 &&
+      entries.every((entry) => /\.csv$/i.test(entry.entryName));
+    return csvOnly ? 'csv' : 'excel';
+  }
+
+  const text = input
+    .subarray(0, 1024)
+    .toString('utf8')
+    .replace(/^\uFEFF/, '')
+    .trimStart();
+  if (text.startsWith('<')) return 'xml';
+  if (text.startsWith('{') || text.startsWith('[')) return 'json';
+  if (/^(---\r?\n|%YAML)/.test(text)) return 'yaml';
+  if (/^(--|\/\*|(CREATE|INSERT|DROP|SET|BEGIN|USE)\b)/i.test(text)) {
+    return 'sql';
+  }
+  return 'csv';
+};
+
+// What the converters would make of an upload: its format, CSV dialect or
+// workbook sheets, and each table's columns, inferred types and first rows.
+// Reader options (sheets, delimiter, headerRow, ...) apply as they do when
+// converting.
+export const previewFile = async (
+  input: Buffer,
+  options: ConvertOptions & { from?: string; originalName?: string }
+): Promise<Preview> => {
+  const from = options.from || detectFormat(input, options.originalName);
+  const format = getFormat(from);
+  if (!format?.read) {
+    throw new ConversionError(`Unsupported input format: ${from}`);
+  }
+  const limit =
+    parseIntegerOption(options.limit, 'limit') ?? DEFAULT_PREVIEW_ROWS;
+
+  const preview: Preview = { format: format.name, tables: [] };
+  if (format.name === 'csv' && !isZip(input)) {
+    const dialect = resolveCsvDialect(input, options);
+    preview.encoding = dialect.encoding;
+    preview.delimiter = dialect.delimiter;
+  }
+  if (format.name === 'excel') {
+    try {
+      preview.sheets = xlsx.read(input, {
+        type: 'buffer',
+        bookSheets: true,
+      }).SheetNames;
+    } catch (e: any) {
+      throw new ConversionError(`Error parsing EXCEL file. ${e.message}`);
+    }
+  }
+
+  const dataset = await readDataset(format, input, options);
+  preview.tables = dataset.tables.map((table) => ({
+    name: table.name,
+    columns: inferColumns(table).map(({ name, type, nullable }) => ({
+      name,
+      type,
+      nullable,
+    })),
+    rowCount: table.rows.length,
+    rows: table.rows.slice(0, limit),
+  }));
+  return preview;
+};
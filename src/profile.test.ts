@@ -0,0 +1,91 @@
+import xlsx from 'xlsx';
+import { profileFile, profileToWorkbook } from './profile';
+
+const csv = [
+  'id,price,joined,city',
+  '1,2.5,2024-01-05,Lagos',
+  '2,3,2023-11-30,Abuja',
+  '3,,2024-02-01,Lagos',
+  '4,x,,Lagos',
+].join('\n');
+
+describe('profile', () => {
+  it('should profile each column', async () => {
+    const profile = await profileFile(Buffer.from(csv), {
+      fileName: 'people',
+      originalName: 'people.csv',
+      top: '2',
+    });
+
+    expect(profile.format).toBe('csv');
+    const [table] = profile.tables;
+    expect(table.rowCount).toBe(4);
+    const [id, price, joined, city] = table.columns;
+    expect(id).toMatchObject({
+      type: 'integer',
+      confidence: 1,
+      empty: 0,
+      distinct: 4,
+      min: 1,
+      max: 4,
+      mean: 2.5,
+    });
+    expect(price).toMatchObject({
+      type: 'decimal',
+      confidence: 2 / 3,
+      empty: 1,
+      min: 2.5,
+      max: 3,
+      mean: 2.75,
+      maxLength: 3,
+    });
+    expect(joined).toMatchObject({
+      type: 'date',
+      earliest: '2023-11-30',
+      latest: '2024-02-01',
+    });
+    expect(city).toMatchObject({
+      type: 'string',
+      distinct: 2,
+      topValues: [
+        { value: 'Lagos', count: 3 },
+        { value: 'Abuja', count: 1 },
+      ],
+    });
+  });
+
+  it('should report timestamps without an offset as UTC', async () => {
+    const profile = await profileFile(
+      Buffer.from('seen\n2024-01-01 10:00\n2024-01-02 08:30'),
+      { fileName: 'visits', originalName: 'visits.csv' }
+    );
+
+    expect(profile.tables[0].columns[0]).toMatchObject({
+      type: 'timestamp',
+      earliest: '2024-01-01T10:00:00.000Z',
+      latest: '2024-01-02T08:30:00.000Z',
+    });
+  });
+
+  it('should write a summary and top values workbook', async () => {
+    const profile = await profileFile(Buffer.from(csv), {
+      fileName: 'people',
+      from: 'csv',
+    });
+    const workbook = xlsx.read(profileToWorkbook(profile).data, {
+      cellNF: true,
+    });
+
+    expect(workbook.SheetNames).toEqual(['Summary', 'Top values']);
+    const summary: any[] = xlsx.utils.sheet_to_json(workbook.Sheets.Summary);
+    expect(summary[1]).toMatchObject({
+      Table: 'people',
+      Column: 'price',
+      Type: 'decimal',
+      Rows: 4,
+      Empty: 1,
+      Mean: 2.75,
+    });
+    expect(workbook.Sheets.Summary.D2.z).toBe('0.0%');
+  });
+});
@@ -0,0 +1,311 @@
+import xlsx from 'xlsx';
+import { readDataset } from './convert';
+import { ConversionError } from './errors';
+import { EXCEL_CONTENT_TYPE } from './formats/excel';
+import {
+  ColumnType,
+  inferValueType,
+  isEmpty,
+  parseDate,
+  valueText,
+} from './infer';
+import { parseIntegerOption } from './options';
+import { detectFormat } from './preview';
+import { getFormat } from './registry';
+import { flatRows } from './table';
+import { ConvertedFile, ConvertOptions, Table } from './types';
+
+const DEFAULT_TOP_VALUES = 5;
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  // Share of the non-empty values that are of that type, from 0 to 1
+  confidence: number;
+  empty: number;
+  distinct: number;
+  topValues: ValueCount[];
+  // Numeric values only
+  min?: number;
+  max?: number;
+  mean?: number;
+  // Date values only, as ISO text
+  earliest?: string;
+  latest?: string;
+  maxLength: number;
+}
+
+export interface TableProfile {
+  name: string;
+  rowCount: number;
+  columns: ColumnProfile[];
+}
+
+export interface Profile {
+  format: string;
+  tables: TableProfile[];
+}
+
+// Types that the narrower ones also fit in, so 1 and 1.5 are both decimals
+const WIDER_TYPES: { [type: string]: ColumnType } = {
+  integer: 'decimal',
+  date: 'timestamp',
+};
+
+// The most common value type, counting integers as decimals and dates as
+// timestamps when the wider type is present
+const dominantType = (typeCounts: Map<ColumnType, number>, total: number) => {
+  const counts = new Map(typeCounts);
+  typeCounts.forEach((count, type) => {
+    const wider = WIDER_TYPES[type];
+    if (wider && counts.has(wider)) {
+      counts.set(wider, counts.get(wider)! + count);
+      counts.delete(type);
+    }
+  });
+
+  let type: ColumnType = 'string';
+  let best = 0;
+  counts.forEach((count, candidate) => {
+    if (count > best) {
+      type = candidate;
+      best = count;
+    }
+  });
+  return { type, confidence: total ? best / total : 0 };
+};
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const profileColumn = (
+  name: string,
+  values: any[],
+  top: number
+): ColumnProfile => {
+  const counts = new Map<string, number>();
+  const typeCounts = new Map<ColumnType, number>();
+  let empty = 0;
+  let maxLength = 0;
+  let numbers = 0;
+  let sum = 0;
+  let min: number | undefined;
+  let max: number | undefined;
+  let earliest: number | undefined;
+  let latest: number | undefined;
+  let dateOnly = true;
+
+  values.forEach((value) => {
+    if (isEmpty(value)) {
+      empty++;
+      return;
+    }
+    const text = valueText(value);
+    counts.set(text, (counts.get(text) || 0) + 1);
+    maxLength = Math.max(maxLength, text.length);
+
+    const type = inferValueType(value);
+    typeCounts.set(type, (typeCounts.get(type) || 0) + 1);
+    if (type === 'integer' || type === 'decimal') {
+      const number = Number(value);
+      numbers++;
+      sum += number;
+      min = min === undefined ? number : Math.min(min, number);
+      max = max === undefined ? number : Math.max(max, number);
+    } else if (type === 'date' || type === 'timestamp') {
+      const time =
+        value instanceof Date ? value.getTime() : parseDate(text).getTime();
+      if (type === 'timestamp') dateOnly = false;
+      earliest = earliest === undefined ? time : Math.min(earliest, time);
+      latest = latest === undefined ? time : Math.max(latest, time);
+    }
+  });
+
+  const dateText = (time?: number) => {
+    if (time === undefined) return undefined;
+    const iso = new Date(time).toISOString();
+    return dateOnly ? iso.slice(0, 10) : iso;
+  };
+
+  const topValues = Array.from(counts, ([value, count]) => ({ value, count }))
+    // Stable, so ties keep the order values were first seen in
+    .sort((a, b) => b.count - a.count)
+    .slice(0, top);
+
+  return {
+    name,
+    ...dominantType(typeCounts, values.length - empty),
+    empty,
+    distinct: counts.size,
+    topValues,
+    min,
+    max,
+    mean: numbers ? round(sum / numbers) : undefined,
+    earliest: dateText(earliest),
+    latest: dateText(latest),
+    maxLength,
+  };
+};
+
+export const profileTable = (
+  table: Table,
+  top = DEFAULT_TOP_VALUES
+): TableProfile => {
+  const rows = flatRows(table);
+  return {
+    name: table.name,
+    rowCount: rows.length,
+    columns: table.columns.map((column) =>
+      profileColumn(
+        column,
+        rows.map((row) => row[column]),
+        top
+      )
+    ),
+  };
+};
+
+// Profile every table of an upload, read as it would be for a conversion
+export const profileFile = async (
+  input: Buffer,
+  options: ConvertOptions & { from?: string; originalName?: string }
+): Promise<Profile> => {
+  const from = options.from || detectFormat(input, options.originalName);
+  const format = getFormat(from);
+  if (!format?.read) {
+    throw new ConversionError(`Unsupported input format: ${from}`);
+  }
+  const top = parseIntegerOption(options.top, 'top', 1) ?? DEFAULT_TOP_VALUES;
+
+  const dataset = await readDataset(format, input, options);
+  return {
+    format: format.name,
+    tables: dataset.tables.map((table) => profileTable(table, top)),
+  };
+};
+
+const SUMMARY_HEADER = [
+  'Table',
+  'Column',
+  'Type',
+  'Confidence',
+  'Rows',
+  'Empty',
+  'Distinct',
+  'Min',
+  'Max',
+  'Mean',
+  'Earliest',
+  'Latest',
+  'Max length',
+];
+
+// Column widths in characters and number formats by header
+const SUMMARY_WIDTHS = [20, 24, 10, 11, 10, 10, 10, 12, 12, 12, 22, 22, 11];
+const SUMMARY_FORMATS: { [header: string]: string } = {
+  Confidence: '0.0%',
+  Rows: '#,##0',
+  Empty: '#,##0',
+  Distinct: '#,##0',
+  Mean: '#,##0.00',
+};
+
+// Apply number formats to the data cells of a sheet's columns
+const formatColumns = (
+  sheet: xlsx.WorkSheet,
+  header: string[],
+  formats: { [header: string]: string },
+  rowCount: number
+) => {
+  header.forEach((name, c) => {
+    if (!formats[name]) return;
+    for (let r = 1; r <= rowCount; r++) {
+      const cell = sheet[xlsx.utils.encode_cell({ r, c })];
+      if (cell && cell.t === 'n') cell.z = formats[name];
+    }
+  });
+};
+
+const addSheet = (
+  workbook: xlsx.WorkBook,
+  name: string,
+  header: string[],
+  rows: any[][],
+  widths: number[],
+  formats: { [header: string]: string } = {}
+) => {
+  const sheet = xlsx.utils.aoa_to_sheet([header, ...rows]);
+  sheet['!cols'] = widths.map((wch) => ({ wch }));
+  sheet['!autofilter'] = {
+    ref: xlsx.utils.encode_range({
+      s: { r: 0, c: 0 },
+      e: { r: rows.length, c: header.length - 1 },
+    }),
+  };
+  formatColumns(sheet, header, formats, rows.length);
+  xlsx.utils.book_append_sheet(workbook, sheet, name);
+};
+
+// The profile as a workbook: a Summary sheet with one row per column and a
+// Top values sheet
+export const profileToWorkbook = (profile: Profile): ConvertedFile => {
+  const workbook = xlsx.utils.book_new();
+  const summary: any[][] = [];
+  const topValues: any[][] = [];
+
+  profile.tables.forEach((table) => {
+    table.columns.forEach((column) => {
+      summary.push([
+        table.name,
+        column.name,
+        column.type,
+        column.confidence,
+        table.rowCount,
+        column.empty,
+        column.distinct,
+        column.min,
+        column.max,
+        column.mean,
+        column.earliest,
+        column.latest,
+        column.maxLength,
+      ]);
+      column.topValues.forEach(({ value, count }) => {
+        topValues.push([
+          table.name,
+          column.name,
+          value,
+          count,
+          table.rowCount ? count / table.rowCount : 0,
+        ]);
+      });
+    });
+  });
+
+  addSheet(
+    workbook,
+    'Summary',
+    SUMMARY_HEADER,
+    summary,
+    SUMMARY_WIDTHS,
+    SUMMARY_FORMATS
+  );
+  addSheet(
+    workbook,
+    'Top values',
+    ['Table', 'Column', 'Value', 'Count', 'Share'],
+    topValues,
+    [20, 24, 30, 10, 10],
+    { Count: '#,##0', Share: '0.0%' }
+  );
+
+  return {
+    data: xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' }),
+    extension: 'xlsx',
+    contentType: EXCEL_CONTENT_TYPE,
+  };
+};
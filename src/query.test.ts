@@ -0,0 +1,96 @@
+import { Readable, Writable } from 'stream';
+import { convert, streamConvert } from './convert';
+import { ConversionError } from './errors';
+
+const csv = [
+  'id,status,date,score',
+  '1,active,2024-03-01,5',
+  '2,inactive,2024-01-01,7',
+  '3,active,2023-12-31,',
+  '4,active,2024-02-01,9',
+  '4,active,2024-02-01,9',
+  '5,pending,,3',
+].join('\n');
+
+const ids = async (options: { [key: string]: any }) =>
+  JSON.parse(
+    (
+      await convert(Buffer.from(csv), {
+        from: 'csv',
+        to: 'json',
+        fileName: 'rows',
+        ...options,
+      })
+    ).data.toString()
+  ).map((row: any) => row.id);
+
+describe('row selection', () => {
+  it('should filter rows', async () => {
+    expect(
+      await ids({ filter: `status = 'active' AND score IS NOT NULL` })
+    ).toEqual(['1', '4', '4']);
+    expect(await ids({ filter: `status NOT IN ('active')` })).toEqual([
+      '2',
+      '5',
+    ]);
+  });
+
+  it('should sort by several columns with empty values last', async () => {
+    expect(await ids({ sort: 'date desc' })).toEqual([
+      '1',
+      '4',
+      '4',
+      '2',
+      '3',
+      '5',
+    ]);
+    expect(await ids({ sort: ['status', 'score desc'] })).toEqual([
+      '4',
+      '4',
+      '1',
+      '3',
+      '2',
+      '5',
+    ]);
+  });
+
+  it('should dedupe on key columns before the offset and limit', async () => {
+    expect(await ids({ dedupe: 'true' })).toEqual(['1', '2', '3', '4', '5']);
+    expect(await ids({ dedupe: 'status', offset: '1', limit: '2' })).toEqual([
+      '2',
+      '5',
+    ]);
+  });
+
+  it('should filter and limit streamed rows', async () => {
+    const conversion = streamConvert({
+      from: 'csv',
+      to: 'csv',
+      fileName: 'rows',
+      filter: 'score > 4',
+      dedupe: 'id',
+      limit: '2',
+    });
+    let output = '';
+    await conversion.run(
+      Readable.from([csv]),
+      new Writable({
+        write(chunk, encoding, callback) {
+          output += chunk;
+          callback();
+        },
+      })
+    );
+
+    expect(output).toBe(
+      'id,status,date,score\n1,active,2024-03-01,5\n2,inactive,2024-01-01,7\n'
+    );
+  });
+
+  it('should reject sorting while streaming and invalid filters', async () => {
+    expect(() =>
+      streamConvert({ from: 'csv', to: 'csv', fileName: 'rows', sort: 'id' })
+    ).toThrow('Sorting is not available when streaming.');
+    await expect(ids({ filter: 'status =' })).rejects.toThrow(ConversionError);
+  });
+});
@@ -0,0 +1,147 @@
+import { ConversionError } from './errors';
+import { compareValues, compileCondition } from './expression';
+import { isEmpty, valueText } from './infer';
+import { parseIntegerOption, parseListOption } from './options';
+import { flattenRow } from './table';
+import { ConvertOptions, Dataset, Row, StreamSource } from './types';
+
+export interface SortKey {
+  column: string;
+  descending: boolean;
+}
+
+// Which rows of each table are written, applied in this order: filter,
+// dedupe, sort, then offset and limit
+export interface Query {
+  filter?: (row: Row) => boolean;
+  // Key columns of duplicate rows, an empty list comparing whole rows
+  dedupe?: string[];
+  sort?: SortKey[];
+  offset: number;
+  limit?: number;
+}
+
+// "date desc, name" or ["date desc", "name"]
+const parseSort = (value: any): SortKey[] | undefined =>
+  parseListOption(value, 'sort')?.map((entry) => {
+    const [, name, direction] = /^(.*?)(?:\s+(asc|desc))?$/i.exec(
+      entry.trim()
+    )!;
+    const column = /^".*"$/.test(name) ? name.slice(1, -1) : name;
+    if (!column) throw new ConversionError(`Invalid sort entry: "${entry}".`);
+    return {
+      column,
+      descending: direction?.toLowerCase() === 'desc',
+    };
+  });
+
+// dedupe=true compares whole rows, dedupe=id,email only those columns
+const parseDedupe = (value: any): string[] | undefined => {
+  if (value === undefined || value === '' || String(value) === 'false') {
+    return undefined;
+  }
+  return String(value) === 'true' ? [] : parseListOption(value, 'dedupe');
+};
+
+export const parseQuery = (options: ConvertOptions): Query | undefined => {
+  const filter = options.filter ? String(options.filter) : undefined;
+  const query: Query = {
+    filter: filter ? compileCondition(filter) : undefined,
+    dedupe: parseDedupe(options.dedupe),
+    sort: parseSort(options.sort),
+    offset: parseIntegerOption(options.offset, 'offset') || 0,
+    limit: parseIntegerOption(options.limit, 'limit'),
+  };
+  const { filter: condition, dedupe, sort, offset, limit } = query;
+  return condition || dedupe || sort || offset || limit !== undefined
+    ? query
+    : undefined;
+};
+
+const rowKey = (row: Row, columns: string[]) =>
+  JSON.stringify(
+    (columns.length ? columns : Object.keys(row)).map((column) => [
+      column,
+      isEmpty(row[column]) ? null : valueText(row[column]),
+    ])
+  );
+
+// Filter and dedupe, keeping the flattened row the checks were made on
+const matchRows = function* (
+  rows: Iterable<Row>,
+  query: Query,
+  seen = new Set<string>()
+) {
+  for (const row of rows) {
+    const flat = flattenRow(row);
+    if (query.filter && !query.filter(flat)) continue;
+    if (query.dedupe) {
+      const key = rowKey(flat, query.dedupe);
+      if (seen.has(key)) continue;
+      seen.add(key);
+    }
+    yield { row, flat };
+  }
+};
+
+const selectRows = (rows: Row[], query: Query): Row[] => {
+  const matches = Array.from(matchRows(rows, query));
+  const { sort } = query;
+  if (sort) {
+    matches.sort((a, b) => {
+      for (const { column, descending } of sort) {
+        const order = compareValues(a.flat[column], b.flat[column]);
+        if (!order) continue;
+        // Empty values stay last either way
+        const empty = isEmpty(a.flat[column]) || isEmpty(b.flat[column]);
+        return descending && !empty ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  const end =
+    query.limit === undefined ? undefined : query.offset + query.limit;
+  return matches.slice(query.offset, end).map((match) => match.row);
+};
+
+export const queryDataset = (dataset: Dataset, query: Query): Dataset => {
+  // A subset of the rows no longer matches the nested document
+  const { document, ...rest } = dataset;
+  return {
+    ...rest,
+    tables: dataset.tables.map((table) => ({
+      ...table,
+      rows: selectRows(table.rows, query),
+    })),
+  };
+};
+
+// Streamed rows are filtered, deduplicated and limited per table as they
+// arrive. Sorting needs every row, so it is not available here.
+export const queryRecords = (
+  source: StreamSource,
+  query: Query
+): StreamSource => ({
+  ...source,
+  records: (async function* () {
+    const seen = new Map<string, Set<string>>();
+    const counts = new Map<string, number>();
+    const end =
+      query.limit === undefined ? Infinity : query.offset + query.limit;
+
+    for await (const record of source.records) {
+      if (!seen.has(record.table)) seen.set(record.table, new Set());
+      const [match] = Array.from(
+        matchRows([record.row], query, seen.get(record.table))
+      );
+      if (!match) continue;
+
+      const count = (counts.get(record.table) || 0) + 1;
+      counts.set(record.table, count);
+      if (count > query.offset && count <= end) yield record;
+      // A single table is done once the limit is reached
+      if (count >= end && !source.multiTable) return;
+    }
+  })(),
+});
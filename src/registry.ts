@@ -0,0 +1,27 @@
+import { DatabaseConnector, Format } from './types';
+
+const formats = new Map<string, Format>();
+
+export const registerFormat = (format: Format) => {
+  [format.name, ...(format.aliases || [])].forEach((name) => {
+    formats.set(name.toLowerCase(), format);
+  });
+};
+
+export const getFormat = (name: string): Format | undefined =>
+  formats.get(String(name).toLowerCase());
+
+// Unique formats, without their aliases
+export const listFormats = (): Format[] =>
+  Array.from(new Set(formats.values()));
+
+const connectors = new Map<string, DatabaseConnector>();
+
+export const registerConnector = (connector: DatabaseConnector) => {
+  [connector.name, ...(connector.aliases || [])].forEach((name) => {
+    connectors.set(name.toLowerCase(), connector);
+  });
+};
+
+export const getConnector = (name: string): DatabaseConnector | undefined =>
+  connectors.get(String(name).toLowerCase());
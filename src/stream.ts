@@ -0,0 +1,226 @@
+import { Readable, Writable } from 'stream';
+import { once } from 'events';
+import { ConversionError } from './errors';
+import { ColumnInfo, inferColumns, isEmpty } from './infer';
+import { createTable } from './table';
+import { Row, StreamSource } from './types';
+
+// Rows of one table while streaming, with columns and types taken from the
+// first sampleSize rows since the rest has not been read yet
+export interface StreamTable {
+  name: string;
+  columns: string[];
+  infos: ColumnInfo[];
+  rows: AsyncIterable<Row>;
+  // Fails for a flattened row with a value in a column the sample did not
+  // have, for writers that cannot add columns once they have started
+  checkColumns: (flatRow: Row) => void;
+}
+
+export const DEFAULT_SAMPLE_SIZE = 1000;
+
+// Write a chunk and wait for the output to drain when its buffer is full
+export const writeChunk = async (output: Writable, chunk: string) => {
+  if (!output.write(chunk)) await once(output, 'drain');
+};
+
+// Collect small pieces of text and write them out in larger chunks
+export const createBatchWriter = (output: Writable, batchSize = 64 * 1024) => {
+  let batch = '';
+  return {
+    write: async (text: string) => {
+      batch += text;
+      if (batch.length >= batchSize) {
+        const chunk = batch;
+        batch = '';
+        await writeChunk(output, chunk);
+      }
+    },
+    flush: async () => {
+      if (batch) await writeChunk(output, batch);
+      batch = '';
+    },
+  };
+};
+
+// Input chunks as buffers, also for streams in object or string mode
+export async function* readBuffers(input: Readable): AsyncGenerator<Buffer> {
+  for await (const chunk of input) {
+    yield Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+  }
+}
+
+// The whole input in memory, for readers that need all of it at once
+export const readBuffer = async (input: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of readBuffers(input)) chunks.push(chunk);
+  return Buffer.concat(chunks);
+};
+
+export async function* readText(input: Readable): AsyncGenerator<string> {
+  input.setEncoding('utf8');
+  for await (const chunk of input) yield chunk as string;
+}
+
+// Group streamed records into tables. Rows of a table have to arrive
+// together, and each table's rows must be consumed before the next one.
+export async function* streamTables(
+  source: StreamSource,
+  sampleSize = DEFAULT_SAMPLE_SIZE
+): AsyncGenerator<StreamTable> {
+  const iterator = source.records[Symbol.asyncIterator]();
+  const seen = new Set<string>();
+  let next = await iterator.next();
+
+  while (!next.done) {
+    const name = next.value.table;
+    if (seen.has(name)) {
+      throw new ConversionError(
+        `Rows of table "${name}" must be grouped together when streaming.`
+      );
+    }
+    seen.add(name);
+
+    const sample: Row[] = [];
+    while (
+      !next.done &&
+      next.value.table === name &&
+      sample.length < sampleSize
+    ) {
+      sample.push(next.value.row);
+      next = await iterator.next();
+    }
+
+    const table = createTable(name, sample);
+    // Later rows may be longer or empty, so only the sampled types are kept
+    const infos = inferColumns(table).map((info) => ({
+      ...info,
+      nullable: true,
+      unique: false,
+      maxLength: Infinity,
+    }));
+
+    async function* rows() {
+      yield* sample;
+      while (!next.done && next.value.table === name) {
+        const { row } = next.value;
+        next = await iterator.next();
+        yield row;
+      }
+    }
+
+    const columns = new Set(table.columns);
+    const checkColumns = (flatRow: Row) => {
+      const column = Object.keys(flatRow).find(
+        (key) => !columns.has(key) && !isEmpty(flatRow[key])
+      );
+      if (column !== undefined) {
+        throw new ConversionError(
+          `Column "${column}" of table "${name}" first appears after the first ${sampleSize} rows, which set the columns when streaming. Convert without stream=true to include it.`
+        );
+      }
+    };
+
+    yield { name, columns: table.columns, infos, rows: rows(), checkColumns };
+  }
+}
+
+// Lines of text without their line breaks, numbered from 1
+export async function* readLines(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<{ text: string; line: number }> {
+  let buffer = '';
+  let line = 0;
+  for await (const chunk of chunks) {
+    const lines = (buffer + chunk).split('\n');
+    buffer = lines.pop()!;
+    for (const text of lines) yield { text, line: ++line };
+  }
+  if (buffer) yield { text: buffer, line: ++line };
+}
+
+// One line of newline delimited JSON, failing with its line number
+export const parseJsonLine = (text: string, line: number) => {
+  try {
+    return JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`Line ${line}: ${e.message}`);
+  }
+};
+
+const countLines = (text: string) => text.split('\n').length - 1;
+
+// Values of a JSON array (streamed element by element) or of newline
+// delimited JSON, without holding the whole document in memory
+export async function* readJsonValues(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<any> {
+  let mode: 'unknown' | 'array' | 'lines' = 'unknown';
+  let buffer = ''; // text of the current array element or line
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let ended = false;
+  let line = 0; // lines read so far, for errors in newline delimited JSON
+
+  for await (const chunk of chunks) {
+    let start = 0;
+    if (mode === 'unknown') {
+      start = chunk.search(/\S/);
+      if (start === -1) {
+        line += countLines(chunk);
+        continue;
+      }
+      if (chunk[start] === '[') {
+        mode = 'array';
+        start++;
+      } else if (chunk[start] === '{') {
+        mode = 'lines';
+        line += countLines(chunk.slice(0, start));
+      } else {
+        throw new Error('Expected a JSON array or one JSON object per line.');
+      }
+    }
+
+    if (mode === 'lines') {
+      const lines = (buffer + chunk.slice(start)).split('\n');
+      buffer = lines.pop()!;
+      for (const text of lines) {
+        line++;
+        if (text.trim()) yield parseJsonLine(text, line);
+      }
+      continue;
+    }
+
+    let elementStart = start;
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i];
+      if (ended) {
+        if (/\S/.test(char))
+          throw new Error('Unexpected data after JSON array.');
+      } else if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if ((char === '}' || char === ']') && depth > 0) {
+        depth--;
+      } else if ((char === ',' || char === ']') && depth === 0) {
+        const text = buffer + chunk.slice(elementStart, i);
+        buffer = '';
+        elementStart = i + 1;
+        if (char === ']') ended = true;
+        if (text.trim() || char === ',') yield JSON.parse(text);
+      }
+    }
+    if (!ended) buffer += chunk.slice(elementStart);
+  }
+
+  if (mode === 'lines' && buffer.trim()) yield parseJsonLine(buffer, line + 1);
+  if (mode === 'array' && !ended) {
+    throw new Error('Unexpected end of JSON array.');
+  }
+}
@@ -0,0 +1,178 @@
+import xlsx from 'xlsx';
+import { ConversionError } from './errors';
+import { Row, Table } from './types';
+
+// How arrays inside rows are flattened: joined into one cell, spread over
+// indexed columns (tags.0, tags.1) or exploded into one row per element
+export type ArrayMode = 'join' | 'index' | 'explode';
+
+export const ARRAY_MODES: ArrayMode[] = ['join', 'index', 'explode'];
+
+export const getArrayMode = (name: string = 'join'): ArrayMode => {
+  const mode = String(name).toLowerCase() as ArrayMode;
+  if (!ARRAY_MODES.includes(mode)) {
+    throw new ConversionError(
+      `Unsupported arrays option: ${name}. Expected one of ${ARRAY_MODES.join(
+        ', '
+      )}.`
+    );
+  }
+  return mode;
+};
+
+const isPlainValue = (value: any) =>
+  typeof value !== 'object' || value === null || value instanceof Date;
+
+// Flatten nested objects to dot paths so rows fit in a single sheet
+export const flattenRow = (
+  value: any,
+  prefix = '',
+  row: Row = {},
+  arrays: ArrayMode = 'join'
+): Row => {
+  if (isPlainValue(value)) {
+    row[prefix || 'value'] = value;
+  } else if (Array.isArray(value) && arrays === 'index') {
+    value.forEach((item, i) => {
+      flattenRow(item, prefix ? `${prefix}.${i}` : String(i), row, arrays);
+    });
+  } else if (Array.isArray(value)) {
+    row[prefix || 'value'] = value
+      .map((item) =>
+        typeof item === 'object' ? JSON.stringify(item) : String(item)
+      )
+      .join(', ');
+  } else {
+    Object.keys(value).forEach((key) => {
+      flattenRow(value[key], prefix ? `${prefix}.${key}` : key, row, arrays);
+    });
+  }
+  return row;
+};
+
+// Every combination of array elements, so a row with tags [a, b] becomes
+// two rows. Empty arrays keep the row with a null in their place.
+export const explodeValue = (value: any): any[] => {
+  if (isPlainValue(value)) return [value];
+  if (Array.isArray(value)) {
+    const variants: any[] = [];
+    value.forEach((item) => variants.push(...explodeValue(item)));
+    return variants.length ? variants : [null];
+  }
+
+  let variants: Row[] = [{}];
+  Object.keys(value).forEach((key) => {
+    const next: Row[] = [];
+    const options = explodeValue(value[key]);
+    variants.forEach((variant) => {
+      options.forEach((option) => next.push({ ...variant, [key]: option }));
+    });
+    variants = next;
+  });
+  return variants;
+};
+
+// Rows for the given array mode. Joined arrays are left to the writers,
+// which flatten every row the same way.
+export const expandRow = (row: Row, arrays: ArrayMode): Row[] => {
+  if (arrays === 'index') return [flattenRow(row, '', {}, 'index')];
+  if (arrays === 'explode') return explodeValue(row);
+  return [row];
+};
+
+const isEmptyCell = (value: any) =>
+  value === '' || value === null || value === undefined;
+
+// Rebuild nested objects from dot path keys, numeric segments becoming
+// arrays (tags.0). Keys that clash with a plain value are kept as they are.
+export const unflattenRow = (row: Row): Row => {
+  const result: Row = {};
+  const arrays: any[][] = [];
+
+  Object.keys(row).forEach((key) => {
+    const path = key.split('.');
+    let target: any = result;
+    for (let i = 0; i < path.length - 1; i++) {
+      if (target[path[i]] === undefined) {
+        target[path[i]] = /^\d+$/.test(path[i + 1]) ? [] : {};
+        if (Array.isArray(target[path[i]])) arrays.push(target[path[i]]);
+      }
+      target = target[path[i]];
+      if (isPlainValue(target)) {
+        result[key] = row[key];
+        return;
+      }
+    }
+    target[path[path.length - 1]] = row[key];
+  });
+
+  // Shorter arrays come back from tables padded with empty cells
+  arrays.forEach((array) => {
+    while (array.length && isEmptyCell(array[array.length - 1])) array.pop();
+  });
+  return result;
+};
+
+// Union of the flattened keys of every row, in first-seen order
+export const collectColumns = (rows: Row[]): string[] => {
+  const columns: string[] = [];
+  rows.forEach((row) => {
+    Object.keys(flattenRow(row)).forEach((column) => {
+      if (!columns.includes(column)) columns.push(column);
+    });
+  });
+  return columns;
+};
+
+export const createTable = (name: string, rows: Row[]): Table => ({
+  name,
+  columns: collectColumns(rows),
+  rows,
+});
+
+export const flatRows = (table: Table): Row[] =>
+  table.rows.map((row) => flattenRow(row));
+
+export const tableToSheet = (table: Table) =>
+  xlsx.utils.json_to_sheet(flatRows(table), { header: table.columns });
+
+// Empty header cells get their position as name, repeated names a suffix
+const headerNames = (record: any[]) => {
+  const seen = new Set<string>();
+  return Array.from(record, (value, i) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    let name = text || `column${i + 1}`;
+    for (let n = 2; seen.has(name); n++) name = `${text}_${n}`;
+    seen.add(name);
+    return name;
+  });
+};
+
+// Turn records (arrays of cells) into rows keyed by the header record, or by
+// column1, column2, ... when there is no header. Missing cells get the value
+// of `missing`, or are left out of the row when it is undefined.
+export const createRowBuilder = (header = true, missing?: any) => {
+  const columns: string[] = [];
+  let headerRead = !header;
+
+  return {
+    columns,
+    build: (record: any[]): Row | undefined => {
+      if (!headerRead) {
+        headerRead = true;
+        columns.push(...headerNames(record));
+        return undefined;
+      }
+
+      while (columns.length < record.length) {
+        columns.push(`column${columns.length + 1}`);
+      }
+      const row: Row = {};
+      columns.forEach((column, i) => {
+        const value = record[i] ?? missing;
+        if (value !== undefined) row[column] = value;
+      });
+      return row;
+    },
+  };
+};
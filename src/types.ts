@@ -0,0 +1,108 @@
+import { Readable, Writable } from 'stream';
+
+export type Row = { [key: string]: any };
+
+// A named set of rows, e.g. a sheet, a CSV file or a SQL table
+export interface Table {
+  name: string;
+  columns: string[];
+  rows: Row[];
+}
+
+// Common in-memory model every reader produces and every writer consumes
+export interface Dataset {
+  tables: Table[];
+  // Original tree for nested inputs (JSON), used by tree-shaped writers
+  document?: any;
+  // The source holds several named tables (workbook, SQL dump, XML groups)
+  multiTable?: boolean;
+}
+
+export interface ConvertOptions {
+  // Base name of the uploaded file, used for default table/sheet names
+  fileName: string;
+  // Called with the number of rows read so far: every 1000 rows when
+  // streaming, otherwise once the input is read and once it is written
+  onProgress?: (rows: number) => void;
+  // Aborting stops the conversion with a "cancelled" error
+  signal?: AbortSignal;
+  [key: string]: any;
+}
+
+export interface ConvertedFile {
+  data: Buffer | string;
+  extension: string;
+  contentType: string;
+}
+
+export type FormatReader = (
+  input: Buffer,
+  options: ConvertOptions
+) => Dataset | Promise<Dataset>;
+
+export type FormatWriter = (
+  dataset: Dataset,
+  options: ConvertOptions
+) => ConvertedFile | Promise<ConvertedFile>;
+
+// A row and the table it belongs to, as produced by streaming readers
+export interface StreamRecord {
+  table: string;
+  row: Row;
+}
+
+export interface StreamSource {
+  records: AsyncIterable<StreamRecord>;
+  multiTable?: boolean;
+}
+
+export type StreamReader = (
+  input: Readable,
+  options: ConvertOptions
+) => StreamSource;
+
+export interface StreamWriter {
+  extension: string;
+  contentType: string;
+  write: (
+    source: StreamSource,
+    output: Writable,
+    options: ConvertOptions
+  ) => Promise<void>;
+}
+
+export interface Format {
+  name: string;
+  aliases?: string[];
+  read?: FormatReader;
+  write?: FormatWriter;
+  // Row by row variants for inputs too large to hold in memory
+  readStream?: StreamReader;
+  writeStream?: StreamWriter;
+}
+
+// Rows of a statement as arrays of values, in the order of the columns
+export interface QueryResult {
+  columns: string[];
+  rows: any[][];
+}
+
+// One open connection, statements run one at a time
+export interface DatabaseConnection {
+  query: (sql: string, params?: any[]) => Promise<QueryResult>;
+  tableExists: (name: string) => Promise<boolean>;
+  close: () => Promise<void>;
+}
+
+export interface DatabaseConnector {
+  name: string;
+  // URL schemes handled besides the name (postgresql://)
+  aliases?: string[];
+  // SQL dialect of the CREATE TABLE statements for imported files
+  dialect: string;
+  // Placeholder for the nth statement parameter, counting from 1
+  placeholder: (index: number) => string;
+  // Starts the transaction exports read in, so a query cannot write
+  beginReadOnly: string;
+  connect: (url: string) => Promise<DatabaseConnection>;
+}
@@ -0,0 +1,207 @@
+import AdmZip from 'adm-zip';
+import { convert } from './convert';
+import { ConversionError } from './errors';
+
+const csv =
+  'id,email,status,age\n1,ada@example.com,active,36\n2,bob,gone,x\n3,,active,17\n';
+
+const columnSpec = {
+  id: { type: 'integer', required: true },
+  email: { required: true, regex: '^[^@]+@[^@]+$' },
+  status: { enum: ['active', 'inactive'] },
+  age: { type: 'integer', min: 18 },
+};
+
+const run = (options: { [key: string]: any }) =>
+  convert(Buffer.from(csv), {
+    from: 'csv',
+    to: 'json',
+    fileName: 'people',
+    ...options,
+  });
+
+const zipEntries = (data: Buffer | string) => {
+  const entries: { [name: string]: string } = {};
+  new AdmZip(Buffer.from(data)).getEntries().forEach((entry) => {
+    entries[entry.entryName] = entry.getData().toString();
+  });
+  return entries;
+};
+
+describe('schema validation', () => {
+  it('should fail with a row level report by default', async () => {
+    const error = await run({ schema: JSON.stringify(columnSpec) }).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(ConversionError);
+    expect(error.status).toBe(422);
+    expect(error.message).toBe('Validation failed: 2 of 3 rows are invalid.');
+    expect(error.details.errors).toEqual([
+      {
+        sheet: 'people',
+        row: 2,
+        column: 'email',
+        value: 'bob',
+        reason: 'email does not match ^[^@]+@[^@]+$',
+      },
+      {
+        sheet: 'people',
+        row: 2,
+        column: 'status',
+        value: 'gone',
+        reason: 'status is not one of active, inactive',
+      },
+      {
+        sheet: 'people',
+        row: 2,
+        column: 'age',
+        value: 'x',
+        reason: 'age is not a valid integer',
+      },
+      {
+        sheet: 'people',
+        row: 3,
+        column: 'email',
+        value: '',
+        reason: 'email is required',
+      },
+      {
+        sheet: 'people',
+        row: 3,
+        column: 'age',
+        value: '17',
+        reason: 'age is less than 18',
+      },
+    ]);
+  });
+
+  it('should reject an invalid regex before converting', async () => {
+    const error = await run({
+      schema: { email: { regex: '([a-z' } },
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConversionError);
+    expect(error.status).toBe(400);
+    expect(error.message).toMatch(/^Invalid regex for column "email": /);
+  });
+
+  it('should drop invalid rows against a JSON Schema', async () => {
+    const schema = {
+      type: 'object',
+      required: ['email'],
+      properties: { email: { type: 'string', minLength: 3 } },
+    };
+    const result = await run({ schema, invalidRows: 'drop' });
+
+    expect(result.extension).toBe('zip');
+    const entries = zipEntries(result.data);
+    expect(Object.keys(entries)).toEqual([
+      'people.json',
+      'validation-report.json',
+    ]);
+    expect(
+      JSON.parse(entries['people.json']).map((row: any) => row.id)
+    ).toEqual(['1', '2']);
+    expect(JSON.parse(entries['validation-report.json'])).toMatchObject({
+      valid: 2,
+      invalid: 1,
+    });
+  });
+
+  it('should quarantine invalid rows in the output format', async () => {
+    const result = await run({
+      to: 'csv',
+      schema: { age: { type: 'integer' } },
+      invalidRows: 'quarantine',
+    });
+
+    const entries = zipEntries(result.data);
+    expect(entries['people.csv']).toBe(
+      'id,email,status,age\n1,ada@example.com,active,36\n3,,active,17'
+    );
+    expect(entries['people-quarantine.csv']).toBe(
+      'id,email,status,age\n2,bob,gone,x'
+    );
+  });
+
+  it('should report source rows after filtering, sorting and exploding', async () => {
+    const schema = JSON.stringify({ age: { type: 'integer', min: 18 } });
+    const rowsOf = async (options: { [key: string]: any }) => {
+      const result = await run({
+        schema,
+        validationReport: 'json',
+        ...options,
+      });
+      return JSON.parse(result.data.toString()).errors.map(
+        (error: any) => error.row
+      );
+    };
+
+    expect(await rowsOf({ filter: "status = 'active'" })).toEqual([3]);
+    expect(await rowsOf({ sort: 'id desc' })).toEqual([3, 2]);
+
+    const json = JSON.stringify([
+      { id: 1, tags: ['a', 'b'], age: 20 },
+      { id: 2, tags: ['c', 'd'], age: 12 },
+    ]);
+    const exploded = await convert(Buffer.from(json), {
+      from: 'json',
+      to: 'json',
+      fileName: 'people',
+      arrays: 'explode',
+      filter: "tags = 'd'",
+      schema,
+      validationReport: 'json',
+    });
+    expect(JSON.parse(exploded.data.toString()).errors).toEqual([
+      {
+        sheet: 'people',
+        row: 2,
+        column: 'age',
+        value: 12,
+        reason: 'age is less than 18',
+      },
+    ]);
+  });
+
+  it('should read date limits without an offset as UTC', async () => {
+    const result = await convert(
+      Buffer.from('seen\n2024-01-01T14:00:00Z\n2024-01-01T11:00:00Z'),
+      {
+        from: 'csv',
+        to: 'json',
+        fileName: 'visits',
+        schema: { seen: { type: 'date', min: '2024-01-01 12:00' } },
+        validationReport: 'json',
+      }
+    );
+
+    expect(JSON.parse(result.data.toString())).toMatchObject({
+      valid: 1,
+      invalid: 1,
+      errors: [{ row: 2, reason: 'seen is less than 2024-01-01 12:00' }],
+    });
+  });
+
+  it('should only return the report when asked for JSON', async () => {
+    const result = await run({
+      schema: { age: { type: 'integer', max: 40 } },
+      validationReport: 'json',
+    });
+
+    expect(JSON.parse(result.data.toString())).toEqual({
+      valid: 2,
+      invalid: 1,
+      errors: [
+        {
+          sheet: 'people',
+          row: 2,
+          column: 'age',
+          value: 'x',
+          reason: 'age is not a valid integer',
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import AdmZip from 'adm-zip';
+import { ConversionError } from './errors';
+import { inferValueType, isEmpty, parseDate } from './infer';
+import { parseObjectOption } from './options';
+import { flattenRow } from './table';
+import { ConvertedFile, ConvertOptions, Dataset, Row, Table } from './types';
+
+export type SchemaType = 'string' | 'integer' | 'number' | 'boolean' | 'date';
+
+// Rules for one column of the simple column spec
+export interface ColumnRule {
+  type?: SchemaType;
+  required?: boolean;
+  regex?: string;
+  // The regex, compiled once when the schema is parsed
+  pattern?: RegExp;
+  enum?: any[];
+  // Value for numbers and dates, length for strings
+  min?: number | string;
+  max?: number | string;
+}
+
+export type ColumnSpec = { [column: string]: ColumnRule };
+
+export interface ValidationError {
+  sheet: string;
+  // Data row number, 1 being the first row after the header
+  row: number;
+  column: string;
+  value?: any;
+  reason: string;
+}
+
+export interface ValidationReport {
+  valid: number;
+  invalid: number;
+  errors: ValidationError[];
+}
+
+// What happens to invalid rows: the conversion fails, they are left out,
+// or they are left out and written to a separate quarantine file
+export type InvalidRowsMode = 'fail' | 'drop' | 'quarantine';
+
+const INVALID_ROWS_MODES: InvalidRowsMode[] = ['fail', 'drop', 'quarantine'];
+
+const SCHEMA_TYPES: SchemaType[] = [
+  'string',
+  'integer',
+  'number',
+  'boolean',
+  'date',
+];
+
+export const REPORT_FILE_NAME = 'validation-report.json';
+
+const isJsonSchema = (schema: any) =>
+  schema.$schema !== undefined ||
+  (schema.type === 'object' && typeof schema.properties === 'object');
+
+// The subset of JSON Schema that maps onto column rules
+const fromJsonSchema = (schema: any): ColumnSpec => {
+  const required: string[] = schema.required || [];
+  const spec: ColumnSpec = {};
+  Object.keys(schema.properties || {}).forEach((column) => {
+    const property = schema.properties[column] || {};
+    const types = ([] as string[]).concat(property.type || []);
+    let type = types.find((item) => item !== 'null') as SchemaType | undefined;
+    if (type === 'string' && ['date', 'date-time'].includes(property.format)) {
+      type = 'date';
+    }
+
+    spec[column] = {
+      type,
+      required: required.includes(column),
+      regex: property.pattern,
+      enum: property.enum,
+      min: property.minimum ?? property.minLength ?? property.formatMinimum,
+      max: property.maximum ?? property.maxLength ?? property.formatMaximum,
+    };
+  });
+  return spec;
+};
+
+const compileRegex = (regex: string, column: string) => {
+  try {
+    return new RegExp(regex);
+  } catch (e: any) {
+    throw new ConversionError(
+      `Invalid regex for column "${column}": ${e.message}`
+    );
+  }
+};
+
+const toColumnSpec = (schema: any, name: string): ColumnSpec => {
+  const spec = isJsonSchema(schema) ? fromJsonSchema(schema) : schema;
+  const rules: ColumnSpec = {};
+  Object.keys(spec).forEach((column) => {
+    const rule = spec[column];
+    if (typeof rule !== 'object' || rule === null) {
+      throw new ConversionError(
+        `Invalid ${name} for column "${column}", expected an object of rules.`
+      );
+    }
+    if (rule.type && !SCHEMA_TYPES.includes(rule.type)) {
+      throw new ConversionError(
+        `Unsupported type "${
+          rule.type
+        }" for column "${column}". Expected one of ${SCHEMA_TYPES.join(', ')}.`
+      );
+    }
+    rules[column] = {
+      ...rule,
+      pattern:
+        rule.regex === undefined
+          ? undefined
+          : compileRegex(String(rule.regex), column),
+    };
+  });
+  return rules;
+};
+
+export interface Schema {
+  // Column rules by table name, or for every table
+  tables?: { [table: string]: ColumnSpec };
+  columns?: ColumnSpec;
+}
+
+// options.schema is a JSON Schema or a column spec, applied to every
+// table, or { "tables": { name: schema } } for one schema per table
+export const parseSchema = (value: any): Schema | undefined => {
+  const schema = parseObjectOption(value, 'schema');
+  if (schema === undefined) return undefined;
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new ConversionError('The "schema" option must be a JSON object.');
+  }
+
+  if (schema.tables && !isJsonSchema(schema)) {
+    const tables: { [table: string]: ColumnSpec } = {};
+    Object.keys(schema.tables).forEach((table) => {
+      tables[table] = toColumnSpec(schema.tables[table], 'schema');
+    });
+    return { tables };
+  }
+  return { columns: toColumnSpec(schema, 'schema') };
+};
+
+export const getInvalidRowsMode = (name: string = 'fail'): InvalidRowsMode => {
+  const mode = String(name).toLowerCase() as InvalidRowsMode;
+  if (!INVALID_ROWS_MODES.includes(mode)) {
+    throw new ConversionError(
+      `Unsupported invalidRows option: ${name}. Expected one of ${INVALID_ROWS_MODES.join(
+        ', '
+      )}.`
+    );
+  }
+  return mode;
+};
+
+const matchesType = (value: any, type: SchemaType) => {
+  const valueType = inferValueType(value);
+  switch (type) {
+    case 'integer':
+      return valueType === 'integer';
+    case 'number':
+      return valueType === 'integer' || valueType === 'decimal';
+    case 'boolean':
+      return valueType === 'boolean';
+    case 'date':
+      return valueType === 'date' || valueType === 'timestamp';
+    default:
+      return true;
+  }
+};
+
+// Milliseconds of a date, or of date text read as UTC without an offset
+const timeOf = (value: any) =>
+  value instanceof Date || typeof value === 'number'
+    ? new Date(value).getTime()
+    : parseDate(String(value)).getTime();
+
+// What min/max are compared with: the number, the time or the length
+const measure = (value: any, type?: SchemaType) => {
+  if (type === 'integer' || type === 'number') return Number(value);
+  if (type === 'date') return timeOf(value);
+  return String(value).length;
+};
+
+const limit = (bound: number | string, type?: SchemaType) =>
+  type === 'date' ? timeOf(bound) : Number(bound);
+
+// Reasons a value breaks a rule, empty when it is valid
+const checkValue = (value: any, rule: ColumnRule): string[] => {
+  if (isEmpty(value)) return rule.required ? ['is required'] : [];
+  if (rule.type && !matchesType(value, rule.type)) {
+    return [`is not a valid ${rule.type}`];
+  }
+
+  const reasons: string[] = [];
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  if (rule.pattern && !rule.pattern.test(text)) {
+    reasons.push(`does not match ${rule.regex}`);
+  }
+  if (rule.enum && !rule.enum.map(String).includes(text)) {
+    reasons.push(`is not one of ${rule.enum.join(', ')}`);
+  }
+
+  const size = measure(value, rule.type);
+  const unit = !rule.type || rule.type === 'string' ? 'length ' : '';
+  if (rule.min !== undefined && size < limit(rule.min, rule.type)) {
+    reasons.push(`${unit}is less than ${rule.min}`);
+  }
+  if (rule.max !== undefined && size > limit(rule.max, rule.type)) {
+    reasons.push(`${unit}is more than ${rule.max}`);
+  }
+  return reasons;
+};
+
+export interface ValidationResult {
+  report: ValidationReport;
+  valid: Dataset;
+  // Invalid rows, per table
+  invalid: Dataset;
+}
+
+// Check every row of every table against the schema, splitting the
+// dataset into valid and invalid rows. Errors point at rowNumbers' number
+// for a row, or its position.
+export const validateDataset = (
+  dataset: Dataset,
+  schema: Schema,
+  rowNumbers?: Map<Row, number>
+): ValidationResult => {
+  const report: ValidationReport = { valid: 0, invalid: 0, errors: [] };
+  const validTables: Table[] = [];
+  const invalidTables: Table[] = [];
+
+  dataset.tables.forEach((table) => {
+    const spec = schema.tables ? schema.tables[table.name] : schema.columns;
+    const validRows: Row[] = [];
+    const invalidRows: Row[] = [];
+
+    table.rows.forEach((row, i) => {
+      const flatRow = flattenRow(row);
+      let rowValid = true;
+      Object.keys(spec || {}).forEach((column) => {
+        checkValue(flatRow[column], spec![column]).forEach((reason) => {
+          rowValid = false;
+          report.errors.push({
+            sheet: table.name,
+            row: rowNumbers?.get(row) ?? i + 1,
+            column,
+            value: flatRow[column],
+            reason: `${column} ${reason}`,
+          });
+        });
+      });
+
+      if (rowValid) validRows.push(row);
+      else invalidRows.push(row);
+    });
+
+    report.valid += validRows.length;
+    report.invalid += invalidRows.length;
+    validTables.push({ ...table, rows: validRows });
+    invalidTables.push({ ...table, rows: invalidRows });
+  });
+
+  const { document, ...rest } = dataset;
+  return {
+    report,
+    // The document would still hold the invalid rows
+    valid: report.invalid ? { ...rest, tables: validTables } : dataset,
+    invalid: { ...rest, tables: invalidTables.filter((t) => t.rows.length) },
+  };
+};
+
+export const reportFile = (report: ValidationReport): ConvertedFile => ({
+  data: JSON.stringify(report, null, 2),
+  extension: 'json',
+  contentType: 'application/json',
+});
+
+const addToZip = (
+  zip: AdmZip,
+  file: ConvertedFile,
+  name: string,
+  folder = ''
+) => {
+  if (file.extension !== 'zip') {
+    zip.addFile(`${folder}${name}.${file.extension}`, Buffer.from(file.data));
+    return;
+  }
+  new AdmZip(Buffer.from(file.data), { noSort: true })
+    .getEntries()
+    .forEach((entry) => zip.addFile(folder + entry.entryName, entry.getData()));
+};
+
+// Zip of the converted output, the validation report and the quarantined
+// rows (in the output format, under quarantine/ when that is a zip too)
+export const bundleValidation = (
+  output: ConvertedFile,
+  report: ValidationReport,
+  quarantine: ConvertedFile | undefined,
+  options: ConvertOptions
+): ConvertedFile => {
+  const zip = new AdmZip(undefined, { noSort: true });
+  addToZip(zip, output, options.fileName);
+  if (quarantine) {
+    addToZip(
+      zip,
+      quarantine,
+      `${options.fileName}-quarantine`,
+      quarantine.extension === 'zip' ? 'quarantine/' : ''
+    );
+  }
+  zip.addFile(REPORT_FILE_NAME, Buffer.from(reportFile(report).data));
+
+  return {
+    data: zip.toBuffer(),
+    extension: 'zip',
+    contentType: 'application/zip',
+  };
+};
@@ -0,0 +1,77 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { createWorkspaces } from './workspace';
+
+const waitForRemoval = async (dir: string) => {
+  while (fs.existsSync(dir)) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('createWorkspaces', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'workspaces-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should give each request its own directory and remove it on close', async () => {
+    const workspaces = createWorkspaces(root, 60 * 1000);
+    const requests = [{}, {}] as Request[];
+    const responses = [new EventEmitter(), new EventEmitter()];
+    requests.forEach((req, i) =>
+      workspaces.middleware(req, responses[i] as Response, () => {})
+    );
+
+    const [first, second] = requests.map((req) => req.workspace!);
+    expect(first).not.toBe(second);
+    fs.writeFileSync(path.join(first, 'data.csv'), 'a');
+    fs.writeFileSync(path.join(second, 'data.csv'), 'b');
+    expect(fs.readFileSync(path.join(first, 'data.csv'), 'utf8')).toBe('a');
+
+    responses[0].emit('close');
+    await waitForRemoval(first);
+    expect(fs.existsSync(second)).toBe(true);
+  });
+
+  it('should sweep directories older than the ttl', async () => {
+    const workspaces = createWorkspaces(root, 60 * 1000);
+    const stale = path.join(root, 'req-stale');
+    const fresh = path.join(root, 'req-fresh');
+    fs.mkdirSync(stale);
+    fs.mkdirSync(fresh);
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    fs.utimesSync(stale, hourAgo, hourAgo);
+
+    workspaces.sweep();
+    await waitForRemoval(stale);
+    expect(fs.existsSync(fresh)).toBe(true);
+  });
+
+  it('should not sweep the workspace of a request in progress', async () => {
+    const workspaces = createWorkspaces(root, 60 * 1000);
+    const req = {} as Request;
+    const res = new EventEmitter();
+    workspaces.middleware(req, res as Response, () => {});
+    const stale = path.join(root, 'req-stale');
+    fs.mkdirSync(stale);
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    [req.workspace!, stale].forEach((dir) =>
+      fs.utimesSync(dir, hourAgo, hourAgo)
+    );
+
+    workspaces.sweep();
+    await waitForRemoval(stale);
+    expect(fs.existsSync(req.workspace!)).toBe(true);
+
+    res.emit('close');
+    await waitForRemoval(req.workspace!);
+  });
+});
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { Request, Response, NextFunction } from 'express';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Directory holding this request's upload and generated files
+      workspace?: string;
+    }
+  }
+}
+
+const MIN_SWEEP_INTERVAL = 60 * 1000;
+
+// Per-request workspace directories under root. Each request gets its own
+// directory, removed once the response finishes or the client goes away;
+// the sweeper removes anything older than ttl (ms) that was left behind,
+// leaving alone the workspaces of requests still in progress.
+export const createWorkspaces = (root: string, ttl: number) => {
+  fs.mkdirSync(root, { recursive: true });
+  const active = new Set<string>();
+
+  const remove = (dir: string) => {
+    fs.rm(dir, { recursive: true, force: true }, (err) => {
+      if (err) console.error(`Error deleting workspace ${dir}`);
+    });
+  };
+
+  const sweep = () => {
+    const now = Date.now();
+    fs.readdirSync(root).forEach((name) => {
+      const dir = path.join(root, name);
+      if (active.has(dir)) return;
+      try {
+        if (now - fs.statSync(dir).mtimeMs > ttl) remove(dir);
+      } catch (e) {
+        // Removed by its request in the meantime
+      }
+    });
+  };
+
+  return {
+    middleware: (req: Request, res: Response, next: NextFunction) => {
+      const dir = fs.mkdtempSync(path.join(root, 'req-'));
+      req.workspace = dir;
+      active.add(dir);
+      res.on('close', () => {
+        active.delete(dir);
+        remove(dir);
+      });
+      next();
+    },
+
+    sweep,
+
+    startSweeper: () =>
+      setInterval(sweep, Math.max(ttl / 2, MIN_SWEEP_INTERVAL)).unref(),
+  };
+};